@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Button, Menu, MenuItem } from '@mui/material';
+import AccountCircleIcon from '@mui/icons-material/AccountCircle';
+import { useAuth } from '../context/AuthContext';
+import { uiColors } from '../styles/uiColors';
+
+/**
+ * Signed-in user's email with a menu to sign out, hidden when sign-in is off
+ */
+const AccountMenu: React.FC = () => {
+  const { isAuthEnabled, session, signOut } = useAuth();
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+
+  if (!isAuthEnabled || !session) {
+    return null;
+  }
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<AccountCircleIcon />}
+        onClick={(event) => setAnchor(event.currentTarget)}
+        sx={{
+          color: uiColors.text,
+          borderColor: 'rgba(255,255,255,0.1)',
+          borderRadius: '8px',
+          textTransform: 'none',
+          height: 56
+        }}
+      >
+        {session.user.email || 'Account'}
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        <MenuItem
+          onClick={() => {
+            setAnchor(null);
+            signOut();
+          }}
+        >
+          Sign out
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
+
+export default AccountMenu;
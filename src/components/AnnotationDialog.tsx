@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  TextField,
+  Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+import { useAnnotations } from '../context/AnnotationContext';
+import { getSettingsStore } from '../services/settingsStore';
+import { getZonedParts, zonedTimeToDate } from '../utils/timezone';
+import { uiColors } from '../styles/uiColors';
+
+const fieldSx = {
+  '& .MuiInputBase-root': { color: uiColors.text },
+  '& .MuiInputLabel-root': { color: uiColors.subtext },
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255,255,255,0.1)' },
+  '& input::-webkit-calendar-picker-indicator': { filter: 'invert(1)' }
+};
+
+/**
+ * Annotation being edited, with the time as typed in the selected timezone
+ */
+interface AnnotationDraft {
+  id: string;
+  /** Wall-clock time as `YYYY-MM-DDTHH:mm` */
+  time: string;
+  label: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format an instant as the wall-clock value of a datetime-local input
+ */
+const toInputTime = (date: Date, timeZone: string): string => {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * Read a datetime-local value as wall-clock time in a timezone, null when incomplete
+ */
+const fromInputTime = (value: string, timeZone: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return zonedTimeToDate({ year, month, day, hour, minute }, timeZone);
+};
+
+interface AnnotationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  timeZone: string;
+}
+
+/**
+ * Dialog for adding, editing and removing chart annotations
+ */
+const AnnotationDialog: React.FC<AnnotationDialogProps> = ({ open, onClose, timeZone }) => {
+  const { annotations, saveAnnotations } = useAnnotations();
+  const [drafts, setDrafts] = useState<AnnotationDraft[]>([]);
+  const [wasOpen, setWasOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved annotations each time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setDrafts(annotations.map(annotation => ({
+        id: annotation.id,
+        time: toInputTime(new Date(annotation.date), timeZone),
+        label: annotation.label
+      })));
+      setError(null);
+    }
+  }
+
+  const isValid = drafts.every(draft => draft.label.trim() && fromInputTime(draft.time, timeZone));
+
+  const updateDraft = (id: string, changes: Partial<AnnotationDraft>) => {
+    setDrafts(prevDrafts => prevDrafts.map(draft => draft.id === id ? { ...draft, ...changes } : draft));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveAnnotations(drafts.map(draft => ({
+        id: draft.id,
+        date: fromInputTime(draft.time, timeZone)!.toISOString(),
+        label: draft.label.trim()
+      })));
+      onClose();
+    } catch (error) {
+      console.error('Error saving annotations:', error);
+      setError('Failed to save annotations. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          bgcolor: uiColors.cardBg,
+          color: uiColors.text,
+          border: `1px solid ${uiColors.border}`,
+          borderRadius: '12px'
+        }
+      }}
+    >
+      <DialogTitle sx={{ fontWeight: 600, fontSize: '1.125rem' }}>Annotations</DialogTitle>
+      <DialogContent>
+        {drafts.length === 0 && (
+          <Typography variant="body2" sx={{ color: uiColors.subtext, mb: 2 }}>
+            No annotations yet. Add one to mark an event such as a prompt deployment on every chart.
+          </Typography>
+        )}
+        {drafts.map(draft => (
+          <Box key={draft.id} sx={{ display: 'flex', gap: 1.5, alignItems: 'center', pt: 1, mb: 1.5 }}>
+            <TextField
+              size="small"
+              label={`Time (${timeZone})`}
+              type="datetime-local"
+              value={draft.time}
+              error={!fromInputTime(draft.time, timeZone)}
+              onChange={(event) => updateDraft(draft.id, { time: event.target.value })}
+              InputLabelProps={{ shrink: true }}
+              sx={{ ...fieldSx, width: 230 }}
+            />
+            <TextField
+              size="small"
+              label="Label"
+              placeholder="Deployed prompt v12"
+              value={draft.label}
+              error={!draft.label.trim()}
+              onChange={(event) => updateDraft(draft.id, { label: event.target.value })}
+              sx={{ ...fieldSx, flexGrow: 1 }}
+            />
+            <IconButton
+              onClick={() => setDrafts(prevDrafts => prevDrafts.filter(item => item.id !== draft.id))}
+              sx={{ color: uiColors.subtext }}
+              aria-label="Remove annotation"
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() => setDrafts(prevDrafts => [
+            ...prevDrafts,
+            { id: crypto.randomUUID(), time: toInputTime(new Date(), timeZone), label: '' }
+          ])}
+          sx={{ color: uiColors.accent, textTransform: 'none' }}
+        >
+          Add annotation
+        </Button>
+        <Typography variant="caption" sx={{ display: 'block', color: uiColors.subtext, mt: 1 }}>
+          Saved in {getSettingsStore().label}
+        </Typography>
+        {error && (
+          <Typography variant="body2" sx={{ color: '#ef4444', mt: 1 }}>{error}</Typography>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: uiColors.subtext, textTransform: 'none' }}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={!isValid || isSaving}
+          variant="contained"
+          sx={{ bgcolor: uiColors.accent, borderRadius: '8px', textTransform: 'none' }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AnnotationDialog;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Box, Chip, Typography } from '@mui/material';
+import ChartCard from './ChartCard';
+import { Anomaly } from '../types/anomaly';
+import { Granularity } from '../types/api';
+import { describeAnomaly } from '../utils/anomalies';
+import { uiColors } from '../styles/uiColors';
+
+interface AnomalyListProps {
+  anomalies: Anomaly[];
+  granularity: Granularity;
+  timeZone: string;
+  isLoading: boolean;
+}
+
+/**
+ * List of detected anomalies, most severe and most recent first
+ */
+const AnomalyList: React.FC<AnomalyListProps> = ({ anomalies, granularity, timeZone, isLoading }) => {
+  const sorted = [...anomalies].sort((a, b) => {
+    if (a.severity !== b.severity) {
+      return a.severity === 'critical' ? -1 : 1;
+    }
+    return new Date(b.date).getTime() - new Date(a.date).getTime();
+  });
+
+  return (
+    <ChartCard title={`Anomalies${anomalies.length > 0 ? ` (${anomalies.length})` : ''}`} isLoading={isLoading}>
+      {sorted.length === 0 ? (
+        <Typography variant="body2" sx={{ color: uiColors.subtext }}>
+          No anomalies in this range. Buckets are flagged when a metric is far from the same bucket in recent periods.
+        </Typography>
+      ) : (
+        <Box sx={{ maxHeight: 300, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 1 }}>
+          {sorted.map(anomaly => (
+            <Box
+              key={`${anomaly.date}-${anomaly.metric}`}
+              sx={{ display: 'flex', alignItems: 'center', gap: 1.5, py: 1, borderBottom: `1px solid ${uiColors.border}` }}
+            >
+              <Chip
+                size="small"
+                label={anomaly.severity === 'critical' ? 'Critical' : 'Warning'}
+                sx={{
+                  minWidth: 72,
+                  color: uiColors.anomalyColors[anomaly.severity],
+                  bgcolor: `${uiColors.anomalyColors[anomaly.severity]}22`,
+                  fontWeight: 600
+                }}
+              />
+              <Typography variant="body2" sx={{ color: uiColors.text }}>
+                {describeAnomaly(anomaly, granularity, timeZone)}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </ChartCard>
+  );
+};
+
+export default AnomalyList;
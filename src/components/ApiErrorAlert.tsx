@@ -0,0 +1,76 @@
+import React, { useEffect } from 'react';
+import { Alert, AlertTitle, Button } from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { ApiError, ApiErrorKind } from '../types/api';
+
+// How each kind of failure is explained
+const ERROR_STATES: Record<ApiErrorKind, { title: string; description: string }> = {
+  credentials: {
+    title: 'Invalid credentials',
+    description: 'The data source rejected the API key. Check the key in your environment settings.'
+  },
+  access: {
+    title: 'Table not found or access denied',
+    description: 'The calls table or analytics function does not exist, or the API key is not allowed to read it. Apply the migrations in supabase/migrations and check the row level security policies.'
+  },
+  rateLimited: {
+    title: 'Too many requests',
+    description: 'The data source is rate limiting requests. Wait a moment before retrying.'
+  },
+  offline: {
+    title: 'Cannot reach the data source',
+    description: 'The server did not answer. Check your connection and that the data source URL is correct.'
+  },
+  server: {
+    title: 'Server error',
+    description: 'The data source failed to answer, even after retrying.'
+  },
+  unknown: {
+    title: 'Failed to fetch data',
+    description: 'Something went wrong while reading data.'
+  }
+};
+
+interface ApiErrorAlertProps {
+  error: ApiError;
+  onRetry: () => void;
+}
+
+/**
+ * Banner explaining why data could not be read, with a retry action
+ * Offline failures retry by themselves once the browser is back online
+ */
+const ApiErrorAlert: React.FC<ApiErrorAlertProps> = ({ error, onRetry }) => {
+  const isOffline = error.kind === 'offline' && !navigator.onLine;
+  const state = isOffline
+    ? { title: 'You are offline', description: 'Data will load again once you are back online.' }
+    : ERROR_STATES[error.kind];
+
+  useEffect(() => {
+    if (error.kind !== 'offline') {
+      return;
+    }
+    window.addEventListener('online', onRetry);
+    return () => window.removeEventListener('online', onRetry);
+  }, [error, onRetry]);
+
+  return (
+    <Alert
+      severity={error.kind === 'rateLimited' || error.kind === 'offline' ? 'warning' : 'error'}
+      variant="outlined"
+      sx={{ mb: 4, borderRadius: '8px', bgcolor: 'rgba(255,255,255,0.02)' }}
+      action={
+        <Button color="inherit" size="small" startIcon={<RefreshIcon />} onClick={onRetry} sx={{ textTransform: 'none' }}>
+          Retry
+        </Button>
+      }
+    >
+      <AlertTitle>{state.title}</AlertTitle>
+      {state.description}
+      {error.kind === 'rateLimited' && error.retryAfter !== undefined && ` Try again in ${Math.ceil(error.retryAfter)} seconds.`}
+      {error.status > 0 && !isOffline && ` (${error.status}: ${error.message})`}
+    </Alert>
+  );
+};
+
+export default ApiErrorAlert;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { BarChart, ReferenceLine, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import ChartCard from './ChartCard';
+import { Annotation } from '../types/annotation';
+import { CallAnalytics, Granularity } from '../types/api';
+import { formatBucket, formatCurrency } from '../utils/formatters';
+import { getAnnotationMarkers } from '../utils/annotations';
+import { uiColors } from '../styles/uiColors';
+
+type BreakdownMetric = 'calls' | 'minutes' | 'cost';
+
+const metricLabels: Record<BreakdownMetric, string> = {
+  calls: 'Calls',
+  minutes: 'Minutes',
+  cost: 'Cost'
+};
+
+interface AssistantBreakdownChartProps {
+  /** Analytics series for each assistant, all covering the same buckets */
+  series: Record<string, CallAnalytics[]>;
+  /** Assistants in display order */
+  assistants: string[];
+  granularity: Granularity;
+  timeZone: string;
+  /** Annotations shown as vertical markers */
+  annotations?: Annotation[];
+  isLoading: boolean;
+}
+
+/**
+ * Stacked chart splitting calls, minutes or cost by assistant
+ */
+const AssistantBreakdownChart: React.FC<AssistantBreakdownChartProps> = ({
+  series,
+  assistants,
+  granularity,
+  timeZone,
+  annotations = [],
+  isLoading
+}) => {
+  const [metric, setMetric] = useState<BreakdownMetric>('calls');
+
+  // One row per bucket with the metric of every assistant
+  const buckets = assistants.length > 0 ? series[assistants[0]] : [];
+  const data = buckets.map((bucket, index) => ({
+    date: bucket.date,
+    values: Object.fromEntries(assistants.map(assistant => [assistant, series[assistant][index]?.[metric] ?? 0]))
+  }));
+
+  const formatValue = (value: number) => metric === 'cost'
+    ? formatCurrency(value)
+    : metric === 'minutes' ? `${value.toFixed(1)} min` : `${value} calls`;
+
+  return (
+    <ChartCard
+      title="By Assistant"
+      isLoading={isLoading}
+      action={
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={metric}
+          onChange={(_, value) => value && setMetric(value)}
+          sx={{
+            '& .MuiToggleButton-root': {
+              color: uiColors.subtext,
+              borderColor: uiColors.border,
+              textTransform: 'none',
+              px: 1.5
+            },
+            '& .MuiToggleButton-root.Mui-selected': {
+              color: uiColors.text,
+              bgcolor: 'rgba(99,102,241,0.25)'
+            }
+          }}
+        >
+          {(Object.keys(metricLabels) as BreakdownMetric[]).map(option => (
+            <ToggleButton key={option} value={option}>{metricLabels[option]}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      }
+    >
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart
+          data={data}
+          margin={{
+            top: 5,
+            right: 30,
+            left: 20,
+            bottom: 5,
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+          <XAxis 
+            dataKey="date" 
+            tick={{ fill: uiColors.text }}
+            tickFormatter={(date) => formatBucket(date, granularity, 'tick', timeZone)}
+            style={{ fontSize: '12px' }}
+          />
+          <YAxis 
+            tick={{ fill: uiColors.text }} 
+            allowDecimals={metric !== 'calls'}
+            style={{ fontSize: '12px' }}
+          />
+          <Tooltip
+            contentStyle={{ 
+              backgroundColor: 'rgba(17, 24, 39, 0.9)',
+              borderColor: uiColors.border,
+              borderRadius: '6px',
+              color: uiColors.text
+            }}
+            formatter={(value, name) => [formatValue(Number(value)), name]}
+            labelFormatter={(date) => formatBucket(date, granularity, 'tooltip', timeZone)}
+          />
+          <Legend />
+          {assistants.map((assistant, index) => (
+            <Bar
+              key={assistant}
+              // Function keys, since assistant names may contain dots
+              dataKey={(row) => row.values[assistant]}
+              name={assistant || 'Unassigned'}
+              stackId="assistants"
+              fill={uiColors.seriesPalette[index % uiColors.seriesPalette.length]}
+            />
+          ))}
+          {getAnnotationMarkers(annotations, data.map(row => row.date), granularity, timeZone).map(marker => (
+            <ReferenceLine
+              key={marker.date}
+              x={marker.date}
+              stroke={uiColors.subtext}
+              strokeDasharray="3 3"
+              label={{ value: marker.label, position: 'insideTopLeft', fill: uiColors.subtext, fontSize: 11 }}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  );
+};
+
+export default AssistantBreakdownChart;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel
+} from '@mui/material';
+import ChartCard from './ChartCard';
+import { AssistantStats } from '../types/api';
+import { formatCurrency } from '../utils/formatters';
+import { uiColors } from '../styles/uiColors';
+
+type LeaderboardField = Exclude<keyof AssistantStats, 'assistant'>;
+
+const columns: { field: LeaderboardField; label: string; format: (value: number) => string }[] = [
+  { field: 'calls', label: 'Calls', format: value => value.toLocaleString() },
+  { field: 'minutes', label: 'Minutes', format: value => value.toFixed(1) },
+  { field: 'cost', label: 'Cost', format: formatCurrency },
+  { field: 'costPerMinute', label: 'Cost / Min', format: formatCurrency },
+  { field: 'avgDuration', label: 'Avg Duration', format: value => `${value.toFixed(1)} min` }
+];
+
+const cellSx = {
+  color: uiColors.text,
+  borderColor: uiColors.border
+};
+
+interface AssistantLeaderboardProps {
+  stats: AssistantStats[];
+  isLoading: boolean;
+}
+
+/**
+ * Table ranking assistants by volume, cost efficiency or call length
+ */
+const AssistantLeaderboard: React.FC<AssistantLeaderboardProps> = ({ stats, isLoading }) => {
+  const [sort, setSort] = useState<{ field: LeaderboardField; direction: 'asc' | 'desc' }>({
+    field: 'calls',
+    direction: 'desc'
+  });
+
+  const sorted = [...stats].sort((a, b) => {
+    const diff = a[sort.field] - b[sort.field];
+    return sort.direction === 'asc' ? diff : -diff;
+  });
+
+  const handleSort = (field: LeaderboardField) => {
+    setSort(prevSort => ({
+      field,
+      direction: prevSort.field === field && prevSort.direction === 'desc' ? 'asc' : 'desc'
+    }));
+  };
+
+  return (
+    <ChartCard title="Assistant Leaderboard" isLoading={isLoading}>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ ...cellSx, color: uiColors.subtext, fontWeight: 600 }}>#</TableCell>
+              <TableCell sx={{ ...cellSx, color: uiColors.subtext, fontWeight: 600 }}>Assistant</TableCell>
+              {columns.map(column => (
+                <TableCell
+                  key={column.field}
+                  align="right"
+                  sx={{ ...cellSx, color: uiColors.subtext, fontWeight: 600 }}
+                >
+                  <TableSortLabel
+                    active={sort.field === column.field}
+                    direction={sort.field === column.field ? sort.direction : 'desc'}
+                    onClick={() => handleSort(column.field)}
+                    sx={{
+                      color: 'inherit !important',
+                      '& .MuiTableSortLabel-icon': { color: `${uiColors.subtext} !important` }
+                    }}
+                  >
+                    {column.label}
+                  </TableSortLabel>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sorted.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columns.length + 2} align="center" sx={{ ...cellSx, color: uiColors.subtext, py: 5 }}>
+                  No calls in this range
+                </TableCell>
+              </TableRow>
+            ) : (
+              sorted.map((row, index) => (
+                <TableRow key={row.assistant}>
+                  <TableCell sx={{ ...cellSx, color: uiColors.subtext }}>{index + 1}</TableCell>
+                  <TableCell sx={cellSx}>{row.assistant || 'Unassigned'}</TableCell>
+                  {columns.map(column => (
+                    <TableCell key={column.field} align="right" sx={cellSx}>
+                      {column.format(row[column.field])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </ChartCard>
+  );
+};
+
+export default AssistantLeaderboard;
@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { Checkbox, FormControl, InputLabel, ListItemText, MenuItem, Select } from '@mui/material';
+import { useDateRange } from '../context/DateRangeContext';
+import { useFilters } from '../context/FiltersContext';
+import { fetchAssistants } from '../services/apiService';
+
+/**
+ * Header control for filtering every query by assistant
+ */
+const AssistantSelect: React.FC = () => {
+  const { startDate, endDate } = useDateRange();
+  const { filters, setAssistants } = useFilters();
+  const [options, setOptions] = useState<string[]>([]);
+  const selected = filters.assistants || [];
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        setOptions(await fetchAssistants(startDate, endDate));
+      } catch (error) {
+        console.error('Error fetching assistants:', error);
+        setOptions([]);
+      }
+    };
+
+    fetchOptions();
+  }, [startDate, endDate]);
+
+  // Keep selected assistants listed even when they have no calls in the range
+  const allOptions = [...options, ...selected.filter(assistant => !options.includes(assistant))];
+
+  return (
+    <FormControl sx={{ minWidth: 180, maxWidth: 260 }}>
+      <InputLabel id="assistant-filter-label" shrink>Assistants</InputLabel>
+      <Select
+        labelId="assistant-filter-label"
+        id="assistant-filter"
+        multiple
+        displayEmpty
+        value={selected}
+        label="Assistants"
+        notched
+        onChange={(event) => {
+          const value = event.target.value;
+          setAssistants(typeof value === 'string' ? value.split(',') : value);
+        }}
+        renderValue={(value) => {
+          if (value.length === 0) {
+            return 'All assistants';
+          }
+          return value.length === 1 ? value[0] : `${value.length} assistants`;
+        }}
+      >
+        {allOptions.map(assistant => (
+          <MenuItem key={assistant} value={assistant}>
+            <Checkbox size="small" checked={selected.includes(assistant)} />
+            <ListItemText primary={assistant} />
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+export default AssistantSelect;
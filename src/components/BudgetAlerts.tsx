@@ -0,0 +1,44 @@
+import React from 'react';
+import { Alert, AlertTitle, Box } from '@mui/material';
+import { BudgetStatus } from '../types/budget';
+import { formatCurrency } from '../utils/formatters';
+import { describeBudget, describeProjection } from '../utils/budgets';
+
+interface BudgetAlertsProps {
+  statuses: BudgetStatus[];
+  timeZone: string;
+}
+
+/**
+ * Banners for budgets that are nearly or fully spent, or on track to run out
+ */
+const BudgetAlerts: React.FC<BudgetAlertsProps> = ({ statuses, timeZone }) => {
+  const alerts = statuses
+    .filter(status => status.level !== 'ok' || status.exhaustedAt !== null)
+    // Most urgent first
+    .sort((a, b) => b.ratio - a.ratio);
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 4 }}>
+      {alerts.map(status => (
+        <Alert
+          key={status.budget.id}
+          severity={status.level === 'critical' ? 'error' : status.level === 'warning' ? 'warning' : 'info'}
+          variant="outlined"
+          sx={{ borderRadius: '8px', bgcolor: 'rgba(255,255,255,0.02)' }}
+        >
+          <AlertTitle>
+            {describeBudget(status)}: {formatCurrency(status.spent)} of {formatCurrency(status.budget.amount)} spent ({Math.round(status.ratio * 100)}%)
+          </AlertTitle>
+          {describeProjection(status, timeZone)}
+        </Alert>
+      ))}
+    </Box>
+  );
+};
+
+export default BudgetAlerts;
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  TextField,
+  Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+import { useBudgets } from '../context/BudgetContext';
+import { getSettingsStore } from '../services/settingsStore';
+import { Budget, BudgetStatus } from '../types/budget';
+import { formatCurrency, getCurrency } from '../utils/formatters';
+import { describeProjection } from '../utils/budgets';
+import { uiColors } from '../styles/uiColors';
+
+const levelColors = {
+  ok: uiColors.success,
+  warning: '#f59e0b',
+  critical: '#ef4444'
+};
+
+const fieldSx = {
+  '& .MuiInputBase-root': { color: uiColors.text },
+  '& .MuiInputLabel-root': { color: uiColors.subtext },
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255,255,255,0.1)' }
+};
+
+/**
+ * Budget being edited, with the amount as typed
+ */
+type BudgetDraft = Omit<Budget, 'amount'> & { amount: string };
+
+interface BudgetDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Assistants budgets can be limited to */
+  assistants: string[];
+  /** Current spending against the saved budgets */
+  statuses: BudgetStatus[];
+  timeZone: string;
+}
+
+/**
+ * Dialog for adding, editing and removing cost budgets
+ */
+const BudgetDialog: React.FC<BudgetDialogProps> = ({ open, onClose, assistants, statuses, timeZone }) => {
+  const { budgets, saveBudgets } = useBudgets();
+  const [drafts, setDrafts] = useState<BudgetDraft[]>([]);
+  const [wasOpen, setWasOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved budgets each time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setDrafts(budgets.map(budget => ({ ...budget, amount: String(budget.amount) })));
+      setError(null);
+    }
+  }
+
+  const assistantOptions = [...new Set([...assistants, ...drafts.map(draft => draft.assistant || '').filter(Boolean)])];
+  const isValid = drafts.every(draft => Number(draft.amount) > 0);
+
+  const updateDraft = (id: string, changes: Partial<BudgetDraft>) => {
+    setDrafts(prevDrafts => prevDrafts.map(draft => draft.id === id ? { ...draft, ...changes } : draft));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveBudgets(drafts.map(draft => ({
+        id: draft.id,
+        period: draft.period,
+        amount: Number(draft.amount),
+        ...(draft.assistant ? { assistant: draft.assistant } : {})
+      })));
+      onClose();
+    } catch (error) {
+      console.error('Error saving budgets:', error);
+      setError('Failed to save budgets. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          bgcolor: uiColors.cardBg,
+          color: uiColors.text,
+          border: `1px solid ${uiColors.border}`,
+          borderRadius: '12px'
+        }
+      }}
+    >
+      <DialogTitle sx={{ fontWeight: 600, fontSize: '1.125rem' }}>Budgets</DialogTitle>
+      <DialogContent>
+        {drafts.length === 0 && (
+          <Typography variant="body2" sx={{ color: uiColors.subtext, mb: 2 }}>
+            No budgets yet. Add a daily or monthly budget to get alerts at 80% and 100% of spend.
+          </Typography>
+        )}
+        {drafts.map(draft => {
+          const status = statuses.find(item => item.budget.id === draft.id);
+          return (
+            <Box key={draft.id} sx={{ mb: 2, pb: 2, borderBottom: `1px solid ${uiColors.border}` }}>
+              <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center', pt: 1 }}>
+                <TextField
+                  select
+                  size="small"
+                  label="Period"
+                  value={draft.period}
+                  onChange={(event) => updateDraft(draft.id, { period: event.target.value as Budget['period'] })}
+                  sx={{ ...fieldSx, width: 120 }}
+                >
+                  <MenuItem value="day">Daily</MenuItem>
+                  <MenuItem value="month">Monthly</MenuItem>
+                </TextField>
+                <TextField
+                  size="small"
+                  label={`Amount (${getCurrency()})`}
+                  type="number"
+                  value={draft.amount}
+                  error={!(Number(draft.amount) > 0)}
+                  onChange={(event) => updateDraft(draft.id, { amount: event.target.value })}
+                  inputProps={{ min: 0, step: 'any' }}
+                  sx={{ ...fieldSx, width: 130 }}
+                />
+                <TextField
+                  select
+                  size="small"
+                  label="Assistant"
+                  value={draft.assistant || ''}
+                  onChange={(event) => updateDraft(draft.id, { assistant: event.target.value || undefined })}
+                  SelectProps={{ displayEmpty: true }}
+                  InputLabelProps={{ shrink: true }}
+                  sx={{ ...fieldSx, flexGrow: 1 }}
+                >
+                  <MenuItem value="">All assistants</MenuItem>
+                  {assistantOptions.map(assistant => (
+                    <MenuItem key={assistant} value={assistant}>{assistant}</MenuItem>
+                  ))}
+                </TextField>
+                <IconButton
+                  onClick={() => setDrafts(prevDrafts => prevDrafts.filter(item => item.id !== draft.id))}
+                  sx={{ color: uiColors.subtext }}
+                  aria-label="Remove budget"
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+              {status && (
+                <Box sx={{ mt: 1.5 }}>
+                  <LinearProgress
+                    variant="determinate"
+                    value={Math.min(100, status.ratio * 100)}
+                    sx={{
+                      height: 6,
+                      borderRadius: 3,
+                      bgcolor: 'rgba(255,255,255,0.08)',
+                      '& .MuiLinearProgress-bar': { bgcolor: levelColors[status.level] }
+                    }}
+                  />
+                  <Typography variant="caption" sx={{ color: uiColors.subtext, display: 'block', mt: 0.5 }}>
+                    {formatCurrency(status.spent)} spent this {status.budget.period} ({Math.round(status.ratio * 100)}%). {describeProjection(status, timeZone)}
+                  </Typography>
+                </Box>
+              )}
+            </Box>
+          );
+        })}
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() => setDrafts(prevDrafts => [...prevDrafts, { id: crypto.randomUUID(), period: 'month', amount: '' }])}
+          sx={{ color: uiColors.accent, textTransform: 'none' }}
+        >
+          Add budget
+        </Button>
+        <Typography variant="caption" sx={{ display: 'block', color: uiColors.subtext, mt: 1 }}>
+          Saved in {getSettingsStore().label}
+        </Typography>
+        {error && (
+          <Typography variant="body2" sx={{ color: '#ef4444', mt: 1 }}>{error}</Typography>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: uiColors.subtext, textTransform: 'none' }}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={!isValid || isSaving}
+          variant="contained"
+          sx={{ bgcolor: uiColors.accent, borderRadius: '8px', textTransform: 'none' }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BudgetDialog;
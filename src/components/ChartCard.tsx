@@ -0,0 +1,53 @@
+import React, { ReactNode } from 'react';
+import { Box, Card, CardContent, CircularProgress, Typography } from '@mui/material';
+import { uiColors } from '../styles/uiColors';
+
+interface ChartCardProps {
+  /** Card title */
+  title: string;
+  /** Accent color for the loading indicator */
+  color?: string;
+  isLoading?: boolean;
+  /** Controls shown to the right of the title */
+  action?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Card framing a dashboard chart or table
+ */
+const ChartCard: React.FC<ChartCardProps> = ({ title, color = uiColors.accent, isLoading = false, action, children }) => (
+  <Card 
+    elevation={0} 
+    sx={{ 
+      bgcolor: uiColors.cardBg,
+      borderRadius: '12px',
+      border: `1px solid ${uiColors.border}`,
+      overflow: 'hidden',
+      height: '100%'
+    }}
+  >
+    <CardContent sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+        <Typography 
+          variant="h6" 
+          sx={{ 
+            fontWeight: 600,
+            fontSize: '1.125rem',
+            color: uiColors.text
+          }}
+        >
+          {title}
+        </Typography>
+        {action}
+      </Box>
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 5 }}>
+          <CircularProgress sx={{ color }} />
+        </Box>
+      ) : children}
+    </CardContent>
+  </Card>
+);
+
+export default ChartCard;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography
+} from '@mui/material';
+import DatePicker from 'react-datepicker';
+import 'react-datepicker/dist/react-datepicker.css';
+import { useDateRange } from '../context/DateRangeContext';
+import { useTimezone } from '../context/TimezoneContext';
+import { zonedTimeToDate } from '../utils/timezone';
+import { toCalendarDay, validateRange } from '../utils/dateRange';
+import { formatDate } from '../utils/formatters';
+import { getFirstCallDate } from '../services/apiService';
+import { uiColors } from '../styles/uiColors';
+
+/**
+ * Calendar days from the date picker are local midnights, converted to
+ * instants in the selected timezone
+ */
+const startOfCalendarDay = (day: Date, timeZone: string): Date => {
+  return zonedTimeToDate({ year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate() }, timeZone);
+};
+
+const endOfCalendarDay = (day: Date, timeZone: string): Date => {
+  const nextDay = zonedTimeToDate({ year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate() + 1 }, timeZone);
+  return new Date(nextDay.getTime() - 1);
+};
+
+interface DateRangeDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Dialog for picking an exact calendar date range
+ */
+const DateRangeDialog: React.FC<DateRangeDialogProps> = ({ open, onClose }) => {
+  const { startDate, endDate, setCustomRange } = useDateRange();
+  const { timeZone } = useTimezone();
+  const today = toCalendarDay(new Date(), timeZone);
+  const firstCallDate = getFirstCallDate();
+  const firstDay = firstCallDate ? toCalendarDay(firstCallDate, timeZone) : null;
+
+  const [start, setStart] = useState<Date | null>(null);
+  const [end, setEnd] = useState<Date | null>(null);
+  const [wasOpen, setWasOpen] = useState(false);
+
+  // Start from the current range each time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setStart(toCalendarDay(startDate, timeZone));
+      setEnd(toCalendarDay(endDate, timeZone));
+    }
+  }
+
+  const error = validateRange(start, end, today, firstDay);
+
+  const quickPresets: { label: string; range: () => [Date, Date] }[] = [
+    {
+      label: 'This month',
+      range: () => [new Date(today.getFullYear(), today.getMonth(), 1), today]
+    },
+    {
+      label: 'Last month',
+      range: () => [
+        new Date(today.getFullYear(), today.getMonth() - 1, 1),
+        new Date(today.getFullYear(), today.getMonth(), 0)
+      ]
+    },
+    {
+      label: 'Last 7 days',
+      range: () => [new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6), today]
+    },
+    {
+      label: 'Year to date',
+      range: () => [new Date(today.getFullYear(), 0, 1), today]
+    }
+  ];
+
+  const handleApply = () => {
+    if (!start || !end || error) {
+      return;
+    }
+    // Today's range ends now rather than at midnight tonight
+    const rangeEnd = new Date(Math.min(endOfCalendarDay(end, timeZone).getTime(), Date.now()));
+    setCustomRange(startOfCalendarDay(start, timeZone), rangeEnd);
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      PaperProps={{
+        sx: {
+          bgcolor: uiColors.cardBg,
+          color: uiColors.text,
+          border: `1px solid ${uiColors.border}`,
+          borderRadius: '12px'
+        }
+      }}
+    >
+      <DialogTitle sx={{ fontWeight: 600, fontSize: '1.125rem' }}>Custom Range</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          {quickPresets.map(preset => (
+            <Button
+              key={preset.label}
+              size="small"
+              variant="outlined"
+              onClick={() => {
+                const [presetStart, presetEnd] = preset.range();
+                setStart(presetStart);
+                setEnd(presetEnd);
+              }}
+              sx={{
+                color: uiColors.text,
+                borderColor: 'rgba(255,255,255,0.1)',
+                borderRadius: '8px',
+                textTransform: 'none'
+              }}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </Box>
+        <DatePicker
+          selectsRange
+          inline
+          monthsShown={2}
+          selected={start}
+          startDate={start}
+          endDate={end}
+          minDate={firstDay ?? undefined}
+          maxDate={today}
+          onChange={([newStart, newEnd]: [Date | null, Date | null]) => {
+            setStart(newStart);
+            setEnd(newEnd);
+          }}
+        />
+        <Typography variant="body2" sx={{ mt: 2, color: error ? '#ef4444' : uiColors.subtext }}>
+          {error || `${formatDate(start!.toISOString())} – ${formatDate(end!.toISOString())} (${timeZone})`}
+        </Typography>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: uiColors.subtext, textTransform: 'none' }}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleApply}
+          disabled={!!error}
+          variant="contained"
+          sx={{ bgcolor: uiColors.accent, borderRadius: '8px', textTransform: 'none' }}
+        >
+          Apply
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DateRangeDialog;
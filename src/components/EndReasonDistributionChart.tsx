@@ -0,0 +1,97 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import ChartCard from './ChartCard';
+import { EndReasonStats } from '../types/api';
+import { END_REASON_CATEGORIES, endReasonCategoryLabels, formatEndReason } from '../utils/endReasons';
+import { uiColors } from '../styles/uiColors';
+
+// Most frequent end reasons listed below the chart
+const TOP_REASONS = 5;
+
+interface EndReasonDistributionChartProps {
+  /** Call counts per end reason */
+  reasons: EndReasonStats[];
+  isLoading: boolean;
+}
+
+/**
+ * Donut chart of how calls ended, by end reason category
+ */
+const EndReasonDistributionChart: React.FC<EndReasonDistributionChartProps> = ({ reasons, isLoading }) => {
+  const totalCalls = reasons.reduce((sum, reason) => sum + reason.calls, 0);
+  const data = END_REASON_CATEGORIES
+    .map(category => ({
+      category,
+      name: endReasonCategoryLabels[category],
+      calls: reasons.filter(reason => reason.category === category).reduce((sum, reason) => sum + reason.calls, 0)
+    }))
+    .filter(item => item.calls > 0);
+
+  const formatShare = (calls: number) => totalCalls > 0 ? `${((calls / totalCalls) * 100).toFixed(1)}%` : '0%';
+
+  return (
+    <ChartCard title="End Reasons" isLoading={isLoading}>
+      {totalCalls === 0 ? (
+        <Typography sx={{ color: uiColors.subtext, textAlign: 'center', py: 5 }}>
+          No calls in this range
+        </Typography>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={240}>
+            <PieChart>
+              <Pie
+                data={data}
+                dataKey="calls"
+                nameKey="name"
+                innerRadius={60}
+                outerRadius={95}
+                paddingAngle={2}
+                stroke="none"
+              >
+                {data.map(item => (
+                  <Cell key={item.category} fill={uiColors.endReasonColors[item.category]} />
+                ))}
+              </Pie>
+              <Tooltip
+                contentStyle={{ 
+                  backgroundColor: 'rgba(17, 24, 39, 0.9)',
+                  borderColor: uiColors.border,
+                  borderRadius: '6px',
+                  color: uiColors.text
+                }}
+                itemStyle={{ color: uiColors.text }}
+                formatter={(value, name) => [`${value} calls (${formatShare(Number(value))})`, name]}
+              />
+              <Legend layout="vertical" align="right" verticalAlign="middle" />
+            </PieChart>
+          </ResponsiveContainer>
+          <Box sx={{ mt: 2 }}>
+            {reasons.slice(0, TOP_REASONS).map(reason => (
+              <Box
+                key={reason.endReason}
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1,
+                  py: 0.5,
+                  borderBottom: `1px solid ${uiColors.border}`
+                }}
+              >
+                <Box sx={{ width: 8, height: 8, borderRadius: '50%', bgcolor: uiColors.endReasonColors[reason.category] }} />
+                <Typography variant="body2" sx={{ flexGrow: 1 }} title={reason.endReason}>
+                  {formatEndReason(reason.endReason)}
+                </Typography>
+                <Typography variant="body2" sx={{ color: uiColors.subtext }}>
+                  {reason.calls} · {formatShare(reason.calls)}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        </>
+      )}
+    </ChartCard>
+  );
+};
+
+export default EndReasonDistributionChart;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Checkbox, FormControl, InputLabel, ListItemText, MenuItem, Select } from '@mui/material';
+import { useFilters } from '../context/FiltersContext';
+import { EndReasonCategory } from '../types/api';
+import { END_REASON_CATEGORIES, endReasonCategoryLabels } from '../utils/endReasons';
+
+/**
+ * Header control for filtering every query by end reason category
+ */
+const EndReasonSelect: React.FC = () => {
+  const { filters, setEndReasonCategories } = useFilters();
+  const selected = filters.endReasonCategories || [];
+
+  return (
+    <FormControl sx={{ minWidth: 170, maxWidth: 240 }}>
+      <InputLabel id="end-reason-filter-label" shrink>End Reasons</InputLabel>
+      <Select
+        labelId="end-reason-filter-label"
+        id="end-reason-filter"
+        multiple
+        displayEmpty
+        value={selected}
+        label="End Reasons"
+        notched
+        onChange={(event) => {
+          const value = event.target.value;
+          const categories = typeof value === 'string' ? value.split(',') : value;
+          // Kept in display order, so the URL doesn't depend on the order they were picked in
+          setEndReasonCategories(END_REASON_CATEGORIES.filter(category => categories.includes(category)));
+        }}
+        renderValue={(value) => {
+          if (value.length === 0) {
+            return 'All end reasons';
+          }
+          return value.length === 1 ? endReasonCategoryLabels[value[0] as EndReasonCategory] : `${value.length} categories`;
+        }}
+      >
+        {END_REASON_CATEGORIES.map(category => (
+          <MenuItem key={category} value={category}>
+            <Checkbox size="small" checked={selected.includes(category)} />
+            <ListItemText primary={endReasonCategoryLabels[category]} />
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+export default EndReasonSelect;
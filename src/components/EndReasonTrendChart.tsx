@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { AreaChart, ReferenceLine, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import ChartCard from './ChartCard';
+import { Annotation } from '../types/annotation';
+import { CallAnalytics, EndReasonCategory, Granularity } from '../types/api';
+import { formatBucket } from '../utils/formatters';
+import { END_REASON_CATEGORIES, endReasonCategoryLabels } from '../utils/endReasons';
+import { getAnnotationMarkers } from '../utils/annotations';
+import { uiColors } from '../styles/uiColors';
+
+type TrendScale = 'count' | 'share';
+
+interface EndReasonTrendChartProps {
+  /** Analytics series for each end reason category, all covering the same buckets */
+  series: Record<EndReasonCategory, CallAnalytics[]>;
+  granularity: Granularity;
+  timeZone: string;
+  /** Annotations shown as vertical markers */
+  annotations?: Annotation[];
+  isLoading: boolean;
+}
+
+/**
+ * Stacked chart of end reason categories over time, as call counts or as a
+ * share of each bucket's calls
+ */
+const EndReasonTrendChart: React.FC<EndReasonTrendChartProps> = ({
+  series,
+  granularity,
+  timeZone,
+  annotations = [],
+  isLoading
+}) => {
+  const [scale, setScale] = useState<TrendScale>('share');
+
+  // One row per bucket with the calls of every category
+  const data = (series.success || []).map((bucket, index) => {
+    const calls = END_REASON_CATEGORIES.map(category => series[category][index]?.calls ?? 0);
+    const total = calls.reduce((sum, value) => sum + value, 0);
+    return {
+      date: bucket.date,
+      ...Object.fromEntries(END_REASON_CATEGORIES.map((category, i) => [
+        category,
+        scale === 'share' ? (total > 0 ? (calls[i] / total) * 100 : 0) : calls[i]
+      ]))
+    };
+  });
+
+  return (
+    <ChartCard
+      title="End Reasons Over Time"
+      isLoading={isLoading}
+      action={
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={scale}
+          onChange={(_, value) => value && setScale(value)}
+          sx={{
+            '& .MuiToggleButton-root': {
+              color: uiColors.subtext,
+              borderColor: uiColors.border,
+              textTransform: 'none',
+              px: 1.5
+            },
+            '& .MuiToggleButton-root.Mui-selected': {
+              color: uiColors.text,
+              bgcolor: 'rgba(99,102,241,0.25)'
+            }
+          }}
+        >
+          <ToggleButton value="share">Share</ToggleButton>
+          <ToggleButton value="count">Calls</ToggleButton>
+        </ToggleButtonGroup>
+      }
+    >
+      <ResponsiveContainer width="100%" height={300}>
+        <AreaChart
+          data={data}
+          margin={{
+            top: 5,
+            right: 30,
+            left: 20,
+            bottom: 5,
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+          <XAxis 
+            dataKey="date" 
+            tick={{ fill: uiColors.text }}
+            tickFormatter={(date) => formatBucket(date, granularity, 'tick', timeZone)}
+            style={{ fontSize: '12px' }}
+          />
+          <YAxis 
+            tick={{ fill: uiColors.text }} 
+            domain={scale === 'share' ? [0, 100] : [0, 'auto']}
+            allowDecimals={false}
+            tickFormatter={(value) => scale === 'share' ? `${value}%` : String(value)}
+            style={{ fontSize: '12px' }}
+          />
+          <Tooltip
+            contentStyle={{ 
+              backgroundColor: 'rgba(17, 24, 39, 0.9)',
+              borderColor: uiColors.border,
+              borderRadius: '6px',
+              color: uiColors.text
+            }}
+            formatter={(value, name) => [
+              scale === 'share' ? `${Number(value).toFixed(1)}%` : `${value} calls`,
+              name
+            ]}
+            labelFormatter={(date) => formatBucket(date, granularity, 'tooltip', timeZone)}
+          />
+          <Legend />
+          {END_REASON_CATEGORIES.map(category => (
+            <Area
+              key={category}
+              type="monotone"
+              dataKey={category}
+              name={endReasonCategoryLabels[category]}
+              stackId="endReasons"
+              stroke={uiColors.endReasonColors[category]}
+              fill={uiColors.endReasonColors[category]}
+              fillOpacity={0.6}
+            />
+          ))}
+          {getAnnotationMarkers(annotations, data.map(row => row.date), granularity, timeZone).map(marker => (
+            <ReferenceLine
+              key={marker.date}
+              x={marker.date}
+              stroke={uiColors.subtext}
+              strokeDasharray="3 3"
+              label={{ value: marker.label, position: 'insideTopLeft', fill: uiColors.subtext, fontSize: 11 }}
+            />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  );
+};
+
+export default EndReasonTrendChart;
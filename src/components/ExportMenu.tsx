@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Button, Divider, ListSubheader, Menu, MenuItem, Snackbar, Alert } from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { useDateRange } from '../context/DateRangeContext';
+import { useTimezone } from '../context/TimezoneContext';
+import { useFilters } from '../context/FiltersContext';
+import { exportAnalytics, exportCallList, ExportFormat } from '../services/exportService';
+import { CallAnalytics, Granularity } from '../types/api';
+import { uiColors } from '../styles/uiColors';
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  xlsx: 'Excel (XLSX)'
+};
+
+interface ExportMenuProps {
+  /** Analytics series currently shown on the dashboard */
+  analytics: CallAnalytics[];
+  granularity: Granularity;
+}
+
+/**
+ * Header menu downloading the chart data or the full call list
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ analytics, granularity }) => {
+  const { startDate, endDate } = useDateRange();
+  const { timeZone } = useTimezone();
+  const { filters } = useFilters();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const context = { startDate, endDate, timeZone, granularity, filters };
+
+  const runExport = async (task: () => Promise<void>) => {
+    setAnchorEl(null);
+    setProgress('Exporting…');
+    try {
+      await task();
+    } catch {
+      setError('Export failed. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<FileDownloadIcon />}
+        disabled={progress !== null}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        sx={{
+          color: uiColors.text,
+          borderColor: 'rgba(255,255,255,0.1)',
+          borderRadius: '8px',
+          textTransform: 'none',
+          height: 56,
+          whiteSpace: 'nowrap',
+          '&.Mui-disabled': { color: uiColors.subtext }
+        }}
+      >
+        {progress || 'Export'}
+      </Button>
+      <Menu anchorEl={anchorEl} open={anchorEl !== null} onClose={() => setAnchorEl(null)}>
+        <ListSubheader>Chart data</ListSubheader>
+        {(Object.keys(formatLabels) as ExportFormat[]).map(format => (
+          <MenuItem
+            key={`analytics-${format}`}
+            onClick={() => runExport(() => exportAnalytics(analytics, format, context))}
+          >
+            {formatLabels[format]}
+          </MenuItem>
+        ))}
+        <Divider />
+        <ListSubheader>Call list</ListSubheader>
+        {(Object.keys(formatLabels) as ExportFormat[]).map(format => (
+          <MenuItem
+            key={`calls-${format}`}
+            onClick={() => runExport(() => exportCallList(format, context, (exported, total) => {
+              setProgress(`Exporting ${exported.toLocaleString()} of ${total.toLocaleString()}…`);
+            }))}
+          >
+            {formatLabels[format]}
+          </MenuItem>
+        ))}
+      </Menu>
+      <Snackbar open={error !== null} autoHideDuration={6000} onClose={() => setError(null)}>
+        <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default ExportMenu;
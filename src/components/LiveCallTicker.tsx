@@ -0,0 +1,92 @@
+import React from 'react';
+import { Box, Chip, Typography } from '@mui/material';
+import { keyframes } from '@mui/material/styles';
+import { CallDetail } from '../types/api';
+import { LiveStatus } from '../types/dataSource';
+import { formatCurrency, formatDuration } from '../utils/formatters';
+import { uiColors } from '../styles/uiColors';
+
+const pulse = keyframes`
+  0% { box-shadow: 0 0 0 0 rgba(16, 185, 129, 0.6); }
+  70% { box-shadow: 0 0 0 8px rgba(16, 185, 129, 0); }
+  100% { box-shadow: 0 0 0 0 rgba(16, 185, 129, 0); }
+`;
+
+const statusLabels: Record<LiveStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  reconnecting: 'Reconnecting…',
+  error: 'Live updates unavailable'
+};
+
+const statusColors: Record<LiveStatus, string> = {
+  connecting: '#f59e0b',
+  live: uiColors.success,
+  reconnecting: '#f59e0b',
+  error: '#ef4444'
+};
+
+interface LiveCallTickerProps {
+  status: LiveStatus;
+  /** Latest calls, newest first */
+  calls: CallDetail[];
+  timeZone: string;
+}
+
+/**
+ * Live indicator with a ticker of the calls received since going live
+ */
+const LiveCallTicker: React.FC<LiveCallTickerProps> = ({ status, calls, timeZone }) => (
+  <Box
+    sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 2,
+      mb: 4,
+      px: 2,
+      py: 1.5,
+      bgcolor: uiColors.cardBg,
+      border: `1px solid ${uiColors.border}`,
+      borderRadius: '12px',
+      overflow: 'hidden'
+    }}
+  >
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexShrink: 0 }}>
+      <Box
+        sx={{
+          width: 10,
+          height: 10,
+          borderRadius: '50%',
+          bgcolor: statusColors[status],
+          animation: status === 'live' ? `${pulse} 2s infinite` : 'none'
+        }}
+      />
+      <Typography variant="body2" sx={{ fontWeight: 600, color: statusColors[status] }}>
+        {statusLabels[status]}
+      </Typography>
+    </Box>
+    <Box sx={{ display: 'flex', gap: 1, overflowX: 'auto', flexGrow: 1 }}>
+      {calls.length === 0 ? (
+        <Typography variant="body2" sx={{ color: uiColors.subtext }}>
+          {status === 'live' ? 'Waiting for new calls…' : ''}
+        </Typography>
+      ) : (
+        calls.map(call => (
+          <Chip
+            key={call.id}
+            size="small"
+            label={[
+              new Date(call.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit', timeZone }),
+              call.assistant || 'Unassigned',
+              formatDuration(call.duration),
+              formatCurrency(call.cost)
+            ].join(' · ')}
+            sx={{ color: uiColors.text, bgcolor: 'rgba(255,255,255,0.06)', flexShrink: 0 }}
+          />
+        ))
+      )}
+    </Box>
+  </Box>
+);
+
+export default LiveCallTicker;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect, RefObject } from 'react';
+import { Box, IconButton, MenuItem, Select, Slider, Typography } from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import { loadWaveformPeaks } from '../utils/recordings';
+import { formatCallOffset } from '../utils/formatters';
+import { uiColors } from '../styles/uiColors';
+
+// Number of bars drawn in the waveform
+const WAVEFORM_BARS = 120;
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+interface RecordingPlayerProps {
+  /** Recording URL */
+  src: string;
+  /** Audio element, shared so the transcript can seek the recording */
+  audioRef: RefObject<HTMLAudioElement | null>;
+  /** Called as playback moves, with the position in seconds */
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+/**
+ * Audio player for a call recording with a waveform, seeking and speed control
+ */
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ src, audioRef, onTimeUpdate }) => {
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [duration, setDuration] = useState<number>(0);
+  const [playbackRate, setPlaybackRate] = useState<number>(1);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPeaks(null);
+
+    // Without a waveform the player falls back to a plain seek bar
+    loadWaveformPeaks(src, WAVEFORM_BARS)
+      .then(result => !cancelled && setPeaks(result))
+      .catch(error => console.warn('Could not draw recording waveform:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  const seek = (seconds: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = Math.max(0, Math.min(seconds, duration));
+    }
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) {
+      return;
+    }
+    if (audio.paused) {
+      audio.play().catch(error => {
+        console.error('Error playing recording:', error);
+        setError('The recording could not be played');
+      });
+    } else {
+      audio.pause();
+    }
+  };
+
+  const progress = duration > 0 ? currentTime / duration : 0;
+
+  return (
+    <Box
+      sx={{
+        mb: 2,
+        p: 1.5,
+        border: `1px solid ${uiColors.border}`,
+        borderRadius: '12px',
+        bgcolor: 'rgba(255,255,255,0.03)'
+      }}
+    >
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onLoadedMetadata={(event) => {
+          event.currentTarget.playbackRate = playbackRate;
+        }}
+        // Streamed formats can report an infinite duration until fully loaded
+        onDurationChange={(event) => {
+          const value = event.currentTarget.duration;
+          setDuration(Number.isFinite(value) ? value : 0);
+        }}
+        onTimeUpdate={(event) => {
+          setCurrentTime(event.currentTarget.currentTime);
+          onTimeUpdate?.(event.currentTarget.currentTime);
+        }}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        onError={() => setError('The recording could not be loaded')}
+      />
+      {error ? (
+        <Typography variant="body2" sx={{ color: '#ef4444' }}>{error}</Typography>
+      ) : (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <IconButton onClick={togglePlayback} sx={{ color: uiColors.text }} aria-label={isPlaying ? 'Pause' : 'Play'}>
+            {isPlaying ? <PauseIcon /> : <PlayArrowIcon />}
+          </IconButton>
+          <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+            {peaks ? (
+              <Box
+                onClick={(event) => {
+                  const bounds = event.currentTarget.getBoundingClientRect();
+                  seek(((event.clientX - bounds.left) / bounds.width) * duration);
+                }}
+                sx={{ display: 'flex', alignItems: 'center', gap: '1px', height: 40, cursor: 'pointer' }}
+              >
+                {peaks.map((peak, index) => (
+                  <Box
+                    key={index}
+                    sx={{
+                      flex: 1,
+                      height: `${Math.max(4, peak * 100)}%`,
+                      borderRadius: '1px',
+                      bgcolor: index / peaks.length < progress ? uiColors.accent : 'rgba(255,255,255,0.2)'
+                    }}
+                  />
+                ))}
+              </Box>
+            ) : (
+              <Slider
+                size="small"
+                min={0}
+                max={duration || 1}
+                step={0.1}
+                value={currentTime}
+                onChange={(_, value) => seek(value as number)}
+                sx={{ color: uiColors.accent }}
+              />
+            )}
+          </Box>
+          <Typography variant="caption" sx={{ color: uiColors.subtext, whiteSpace: 'nowrap' }}>
+            {formatCallOffset(currentTime)} / {formatCallOffset(duration)}
+          </Typography>
+          <Select
+            size="small"
+            value={playbackRate}
+            onChange={(event) => {
+              const rate = Number(event.target.value);
+              setPlaybackRate(rate);
+              if (audioRef.current) {
+                audioRef.current.playbackRate = rate;
+              }
+            }}
+            sx={{
+              color: uiColors.text,
+              fontSize: '0.75rem',
+              '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255,255,255,0.1)' },
+              '& .MuiSelect-icon': { color: uiColors.subtext }
+            }}
+          >
+            {PLAYBACK_RATES.map(rate => (
+              <MenuItem key={rate} value={rate}>{rate}×</MenuItem>
+            ))}
+          </Select>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default RecordingPlayer;
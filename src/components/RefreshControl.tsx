@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { Box, CircularProgress, FormControl, IconButton, InputLabel, MenuItem, Select, Tooltip, Typography } from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { formatDateTime, formatRelativeTime } from '../utils/formatters';
+import { uiColors } from '../styles/uiColors';
+
+// Data counts as stale after this long without auto-refresh
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+// Auto-refresh intervals offered, in milliseconds, 0 for off
+const REFRESH_INTERVALS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 30 * 1000, label: '30s' },
+  { value: 60 * 1000, label: '1m' },
+  { value: 5 * 60 * 1000, label: '5m' }
+];
+
+interface RefreshControlProps {
+  /** When the data on screen was loaded, null before the first load */
+  lastUpdated: Date | null;
+  isRefreshing: boolean;
+  /** Whether the last refresh failed, leaving older data on screen */
+  refreshFailed: boolean;
+  /** Auto-refresh interval in milliseconds, 0 for off */
+  interval: number;
+  onIntervalChange: (interval: number) => void;
+  onRefresh: () => void;
+}
+
+/**
+ * Last-updated label with a manual refresh button and auto-refresh interval picker
+ */
+const RefreshControl: React.FC<RefreshControlProps> = ({
+  lastUpdated,
+  isRefreshing,
+  refreshFailed,
+  interval,
+  onIntervalChange,
+  onRefresh
+}) => {
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the relative time current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const age = lastUpdated ? now.getTime() - lastUpdated.getTime() : 0;
+  const isStale = refreshFailed || age > (interval > 0 ? 2 * interval : STALE_AFTER_MS);
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      {lastUpdated && (
+        <Tooltip title={`Loaded ${formatDateTime(lastUpdated.toISOString())}`}>
+          <Typography
+            variant="caption"
+            sx={{ color: isStale ? '#f59e0b' : uiColors.subtext, whiteSpace: 'nowrap' }}
+          >
+            {refreshFailed ? 'Refresh failed · data from ' : 'Updated '}
+            {formatRelativeTime(lastUpdated, now)}
+          </Typography>
+        </Tooltip>
+      )}
+      <Tooltip title="Refresh now">
+        <span>
+          <IconButton onClick={onRefresh} disabled={isRefreshing} sx={{ color: uiColors.text }} aria-label="Refresh">
+            {isRefreshing ? <CircularProgress size={20} sx={{ color: uiColors.subtext }} /> : <RefreshIcon />}
+          </IconButton>
+        </span>
+      </Tooltip>
+      <FormControl sx={{ minWidth: 100 }}>
+        <InputLabel id="refresh-interval-label">Auto-refresh</InputLabel>
+        <Select
+          labelId="refresh-interval-label"
+          id="refresh-interval"
+          value={String(interval)}
+          label="Auto-refresh"
+          onChange={(event) => onIntervalChange(Number(event.target.value))}
+        >
+          {REFRESH_INTERVALS.map(option => (
+            <MenuItem key={option.value} value={String(option.value)}>{option.label}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </Box>
+  );
+};
+
+export default RefreshControl;
@@ -0,0 +1,38 @@
+import React, { ReactNode } from 'react';
+import { Box, CircularProgress } from '@mui/material';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { uiColors } from '../styles/uiColors';
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+/**
+ * Renders its children for signed-in users and sends everyone else to the
+ * login page, which returns them here after signing in
+ */
+const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { isAuthEnabled, session, isRestoring } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthEnabled) {
+    return <>{children}</>;
+  }
+
+  if (isRestoring) {
+    return (
+      <Box sx={{ bgcolor: uiColors.background, minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <CircularProgress sx={{ color: uiColors.accent }} />
+      </Box>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAuth;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Snackbar,
+  TextField,
+  Typography
+} from '@mui/material';
+import BookmarkBorderIcon from '@mui/icons-material/BookmarkBorder';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useSavedViews } from '../context/SavedViewContext';
+import { getSettingsStore } from '../services/settingsStore';
+import { uiColors } from '../styles/uiColors';
+
+const fieldSx = {
+  '& .MuiInputBase-root': { color: uiColors.text },
+  '& .MuiInputLabel-root': { color: uiColors.subtext },
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255,255,255,0.1)' }
+};
+
+/**
+ * Search params as a string independent of the order they were set in
+ */
+const toViewSearch = (params: URLSearchParams): string => {
+  const sorted = new URLSearchParams(params);
+  sorted.sort();
+  return sorted.toString();
+};
+
+/**
+ * Header menu for reopening, saving and removing named views of the
+ * dashboard's range and filters, and for copying a link to the current view
+ */
+const SavedViewsMenu: React.FC = () => {
+  const { views, saveViews } = useSavedViews();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const search = toViewSearch(searchParams);
+  const activeView = views.find(view => toViewSearch(new URLSearchParams(view.search)) === search);
+  const existingView = views.find(view => view.name.toLowerCase() === name.trim().toLowerCase());
+
+  const openDialog = () => {
+    setAnchorEl(null);
+    setName(activeView?.name || '');
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      // Saving under an existing name replaces that view
+      await saveViews(existingView
+        ? views.map(view => view.id === existingView.id ? { ...view, search } : view)
+        : [...views, { id: crypto.randomUUID(), name: name.trim(), search }]);
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Error saving view:', error);
+      setError('Failed to save the view. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await saveViews(views.filter(view => view.id !== id));
+    } catch (error) {
+      console.error('Error removing view:', error);
+      setNotice({ severity: 'error', text: 'Failed to remove the view. Please try again.' });
+    }
+  };
+
+  const copyLink = async () => {
+    setAnchorEl(null);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setNotice({ severity: 'success', text: 'Link copied' });
+    } catch {
+      setNotice({ severity: 'error', text: 'Could not copy the link, copy it from the address bar instead.' });
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<BookmarkBorderIcon />}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        sx={{
+          color: uiColors.text,
+          borderColor: 'rgba(255,255,255,0.1)',
+          borderRadius: '8px',
+          textTransform: 'none',
+          height: 56,
+          whiteSpace: 'nowrap'
+        }}
+      >
+        {activeView?.name || 'Views'}
+      </Button>
+      <Menu anchorEl={anchorEl} open={anchorEl !== null} onClose={() => setAnchorEl(null)}>
+        {views.length > 0 && <ListSubheader>Saved views</ListSubheader>}
+        {views.map(view => (
+          <MenuItem
+            key={view.id}
+            selected={view.id === activeView?.id}
+            onClick={() => {
+              setAnchorEl(null);
+              navigate({ search: view.search });
+            }}
+          >
+            <ListItemText primary={view.name} />
+            <IconButton
+              size="small"
+              edge="end"
+              aria-label={`Remove view ${view.name}`}
+              onClick={(event) => {
+                event.stopPropagation();
+                handleRemove(view.id);
+              }}
+              sx={{ ml: 2 }}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        {views.length > 0 && <Divider />}
+        <MenuItem onClick={openDialog}>Save current view…</MenuItem>
+        <MenuItem onClick={copyLink}>Copy link</MenuItem>
+      </Menu>
+      <Dialog
+        open={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        maxWidth="xs"
+        fullWidth
+        PaperProps={{
+          sx: {
+            bgcolor: uiColors.cardBg,
+            color: uiColors.text,
+            border: `1px solid ${uiColors.border}`,
+            borderRadius: '12px'
+          }
+        }}
+      >
+        <DialogTitle sx={{ fontWeight: 600, fontSize: '1.125rem' }}>Save view</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            label="Name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter' && name.trim() && !isSaving) {
+                handleSave();
+              }
+            }}
+            sx={{ ...fieldSx, mt: 1 }}
+          />
+          <Typography variant="caption" sx={{ display: 'block', color: uiColors.subtext, mt: 1 }}>
+            {existingView ? `Replaces the saved view "${existingView.name}". ` : ''}Saved in {getSettingsStore().label}
+          </Typography>
+          {error && (
+            <Typography variant="body2" sx={{ color: '#ef4444', mt: 1 }}>{error}</Typography>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button onClick={() => setIsDialogOpen(false)} sx={{ color: uiColors.subtext, textTransform: 'none' }}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!name.trim() || isSaving}
+            variant="contained"
+            sx={{ bgcolor: uiColors.accent, borderRadius: '8px', textTransform: 'none' }}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+      <Snackbar open={notice !== null} autoHideDuration={4000} onClose={() => setNotice(null)}>
+        <Alert severity={notice?.severity} onClose={() => setNotice(null)}>{notice?.text}</Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Box, Card, CardContent, CircularProgress, Typography } from '@mui/material';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import { MetricDelta } from '../utils/metrics';
+import { uiColors } from '../styles/uiColors';
+
+interface SummaryCardProps {
+  /** Card title */
+  title: string;
+  /** Formatted metric value */
+  value: string;
+  /** Accent color for the loading indicator */
+  color: string;
+  isLoading: boolean;
+  /** Change against the previous period */
+  delta?: MetricDelta;
+  /** Formats previous values and absolute changes like the main value */
+  formatValue?: (value: number) => string;
+  /** Whether an increase is good news (green) or bad news (red) */
+  higherIsBetter?: boolean;
+  /** Projected end-of-month total, already formatted */
+  projection?: string;
+}
+
+/**
+ * Summary card showing a single metric and its change against the previous period
+ */
+const SummaryCard: React.FC<SummaryCardProps> = ({
+  title,
+  value,
+  color,
+  isLoading,
+  delta,
+  formatValue = (v) => v.toLocaleString(),
+  higherIsBetter = true,
+  projection
+}) => {
+  const renderDelta = () => {
+    if (!delta) {
+      return null;
+    }
+
+    const isUp = delta.change > 0;
+    const isDown = delta.change < 0;
+    const isGood = higherIsBetter ? isUp : isDown;
+    const deltaColor = !isUp && !isDown ? uiColors.subtext : isGood ? uiColors.success : '#ef4444';
+    const sign = isUp ? '+' : isDown ? '−' : '';
+    const percent = delta.percentChange === null ? 'new' : `${sign}${Math.abs(delta.percentChange).toFixed(1)}%`;
+
+    return (
+      <Box sx={{ mt: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 0.5, color: deltaColor }}>
+          {isUp && <ArrowUpwardIcon sx={{ fontSize: '1rem' }} />}
+          {isDown && <ArrowDownwardIcon sx={{ fontSize: '1rem' }} />}
+          <Typography variant="body2" sx={{ fontWeight: 600 }}>
+            {sign}{formatValue(Math.abs(delta.change))} ({percent})
+          </Typography>
+        </Box>
+        <Typography variant="caption" sx={{ color: uiColors.subtext }}>
+          vs {formatValue(delta.previous)} previous period
+        </Typography>
+      </Box>
+    );
+  };
+
+  return (
+    <Card 
+      elevation={0} 
+      sx={{ 
+        bgcolor: uiColors.cardBg,
+        borderRadius: '12px',
+        border: `1px solid ${uiColors.border}`,
+        height: '100%'
+      }}
+    >
+      <CardContent sx={{ p: 3, textAlign: 'center' }}>
+        <Typography 
+          variant="subtitle1" 
+          gutterBottom 
+          sx={{ 
+            color: uiColors.subtext,
+            fontWeight: 500,
+            fontSize: '0.875rem'
+          }}
+        >
+          {title}
+        </Typography>
+        {isLoading ? (
+          <CircularProgress size={24} sx={{ color }} />
+        ) : (
+          <>
+            <Typography 
+              variant="h4" 
+              sx={{ 
+                fontWeight: 700,
+                letterSpacing: '-0.025em'
+              }}
+            >
+              {value}
+            </Typography>
+            {renderDelta()}
+            {projection && (
+              <Typography variant="caption" component="div" sx={{ mt: 1, color: uiColors.subtext }}>
+                Projected this month: <Box component="span" sx={{ color: uiColors.text, fontWeight: 600 }}>{projection}</Box>
+              </Typography>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SummaryCard;
@@ -0,0 +1,26 @@
+import React, { useMemo } from 'react';
+import { Autocomplete, TextField } from '@mui/material';
+import { useTimezone } from '../context/TimezoneContext';
+import { listTimeZones, getBrowserTimeZone } from '../utils/timezone';
+
+/**
+ * Header control for choosing the timezone used for bucketing and display
+ */
+const TimeZoneSelect: React.FC = () => {
+  const { timeZoneSetting, setTimeZone } = useTimezone();
+  const options = useMemo(() => ['browser', ...listTimeZones()], []);
+
+  return (
+    <Autocomplete
+      value={timeZoneSetting}
+      options={options}
+      disableClearable
+      getOptionLabel={(option) => option === 'browser' ? `Browser (${getBrowserTimeZone()})` : option.replace(/_/g, ' ')}
+      onChange={(_, value) => setTimeZone(value)}
+      sx={{ minWidth: 220 }}
+      renderInput={(params) => <TextField {...params} label="Timezone" />}
+    />
+  );
+};
+
+export default TimeZoneSelect;
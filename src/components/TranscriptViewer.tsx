@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Box, IconButton, InputAdornment, TextField, Typography } from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import { TranscriptSpeaker, TranscriptTurn } from '../types/api';
+import { findTranscriptMatches, TranscriptMatch } from '../utils/transcript';
+import { formatCallOffset } from '../utils/formatters';
+import { uiColors } from '../styles/uiColors';
+
+const speakerLabels: Record<TranscriptSpeaker, string> = {
+  assistant: 'Assistant',
+  customer: 'Customer',
+  system: 'System',
+  tool: 'Tool'
+};
+
+const speakerColors: Record<TranscriptSpeaker, string> = {
+  assistant: 'rgba(99,102,241,0.18)',
+  customer: 'rgba(255,255,255,0.06)',
+  system: 'transparent',
+  tool: 'transparent'
+};
+
+/**
+ * Render a turn's text with search matches highlighted
+ */
+const renderHighlighted = (text: string, matches: TranscriptMatch[], current: TranscriptMatch | null) => {
+  if (matches.length === 0) {
+    return text;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach(match => {
+    parts.push(text.slice(position, match.start));
+    parts.push(
+      <Box
+        component="mark"
+        key={match.start}
+        sx={{
+          bgcolor: match === current ? uiColors.chartColors.cost : 'rgba(251,191,36,0.35)',
+          color: match === current ? uiColors.background : 'inherit',
+          borderRadius: '2px',
+          px: '1px'
+        }}
+      >
+        {text.slice(match.start, match.end)}
+      </Box>
+    );
+    position = match.end;
+  });
+  parts.push(text.slice(position));
+  return parts;
+};
+
+interface TranscriptViewerProps {
+  /** Transcript turns in order */
+  turns: TranscriptTurn[];
+  /** Start time of the call in ISO format, used for wall-clock timestamps */
+  startedAt: string;
+  timeZone: string;
+  /** Index of the turn currently playing in the recording */
+  activeTurn?: number | null;
+  /** Called when a turn with a timestamp is clicked, to seek the recording to it */
+  onTurnClick?: (turn: TranscriptTurn) => void;
+}
+
+/**
+ * Chat-style, searchable view of a call transcript
+ */
+const TranscriptViewer: React.FC<TranscriptViewerProps> = ({ turns, startedAt, timeZone, activeTurn = null, onTurnClick }) => {
+  const [search, setSearch] = useState<string>('');
+  const [currentIndex, setCurrentIndex] = useState<number>(0);
+  const turnRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const matches = findTranscriptMatches(turns, search);
+  const current = matches.length > 0 ? matches[Math.min(currentIndex, matches.length - 1)] : null;
+
+  // Bring the current match into view as the user steps through the results
+  useEffect(() => {
+    if (current) {
+      turnRefs.current[current.turn]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [current?.turn, current?.start]);
+
+  // Follow playback, unless the user is stepping through search results
+  useEffect(() => {
+    if (activeTurn !== null && !search.trim()) {
+      turnRefs.current[activeTurn]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeTurn]);
+
+  const step = (direction: 1 | -1) => {
+    if (matches.length === 0) {
+      return;
+    }
+    setCurrentIndex(prevIndex => (Math.min(prevIndex, matches.length - 1) + direction + matches.length) % matches.length);
+  };
+
+  const formatTimestamp = (secondsFromStart: number) => {
+    const wallClock = new Date(new Date(startedAt).getTime() + secondsFromStart * 1000)
+      .toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit', timeZone });
+    return `${formatCallOffset(secondsFromStart)} · ${wallClock}`;
+  };
+
+  if (turns.length === 0) {
+    return (
+      <Typography sx={{ color: uiColors.subtext }}>No transcript recorded for this call</Typography>
+    );
+  }
+
+  return (
+    <Box>
+      <TextField
+        fullWidth
+        size="small"
+        placeholder="Search transcript"
+        value={search}
+        onChange={(event) => {
+          setSearch(event.target.value);
+          setCurrentIndex(0);
+        }}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') {
+            event.preventDefault();
+            step(event.shiftKey ? -1 : 1);
+          }
+        }}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <SearchIcon sx={{ color: uiColors.subtext }} />
+            </InputAdornment>
+          ),
+          endAdornment: search.trim() ? (
+            <InputAdornment position="end">
+              <Typography variant="caption" sx={{ color: uiColors.subtext, mr: 0.5, whiteSpace: 'nowrap' }}>
+                {matches.length > 0 ? `${Math.min(currentIndex, matches.length - 1) + 1} of ${matches.length}` : 'No matches'}
+              </Typography>
+              <IconButton size="small" onClick={() => step(-1)} disabled={matches.length === 0} sx={{ color: uiColors.text }}>
+                <KeyboardArrowUpIcon fontSize="small" />
+              </IconButton>
+              <IconButton size="small" onClick={() => step(1)} disabled={matches.length === 0} sx={{ color: uiColors.text }}>
+                <KeyboardArrowDownIcon fontSize="small" />
+              </IconButton>
+            </InputAdornment>
+          ) : undefined
+        }}
+        sx={{
+          mb: 2,
+          '& .MuiInputBase-root': {
+            color: uiColors.text,
+            bgcolor: 'rgba(255,255,255,0.05)',
+            borderRadius: '8px'
+          },
+          '& .MuiOutlinedInput-notchedOutline': {
+            borderColor: 'rgba(255,255,255,0.1)'
+          }
+        }}
+      />
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+        {turns.map((turn, index) => {
+          const isCustomer = turn.speaker === 'customer';
+          const isNote = turn.speaker === 'system' || turn.speaker === 'tool';
+          const isSeekable = !!onTurnClick && turn.secondsFromStart !== null;
+          return (
+            <Box
+              key={index}
+              ref={(element: HTMLDivElement | null) => { turnRefs.current[index] = element; }}
+              onClick={isSeekable ? () => onTurnClick(turn) : undefined}
+              sx={{
+                cursor: isSeekable ? 'pointer' : 'default',
+                alignSelf: isNote ? 'center' : isCustomer ? 'flex-end' : 'flex-start',
+                maxWidth: isNote ? '100%' : '85%'
+              }}
+            >
+              <Typography
+                variant="caption"
+                sx={{
+                  display: 'block',
+                  color: uiColors.subtext,
+                  textAlign: isCustomer ? 'right' : 'left',
+                  mb: 0.25
+                }}
+              >
+                {speakerLabels[turn.speaker]}
+                {turn.secondsFromStart !== null && ` · ${formatTimestamp(turn.secondsFromStart)}`}
+              </Typography>
+              <Box
+                sx={{
+                  bgcolor: speakerColors[turn.speaker],
+                  border: index === activeTurn
+                    ? `1px solid ${uiColors.accent}`
+                    : isNote ? `1px dashed ${uiColors.border}` : '1px solid transparent',
+                  borderRadius: '12px',
+                  px: 1.5,
+                  py: 1
+                }}
+              >
+                <Typography
+                  variant="body2"
+                  sx={{
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-word',
+                    color: isNote ? uiColors.subtext : uiColors.text,
+                    fontStyle: isNote ? 'italic' : 'normal'
+                  }}
+                >
+                  {renderHighlighted(turn.text, matches.filter(match => match.turn === index), current)}
+                </Typography>
+              </Box>
+            </Box>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+export default TranscriptViewer;
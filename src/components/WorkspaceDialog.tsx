@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  TextField,
+  Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+import { useWorkspaces } from '../context/WorkspaceContext';
+import { DEFAULT_WORKSPACE_ID } from '../services/workspaces';
+import { isAuthRequired } from '../services/apiService';
+import { Workspace } from '../types/workspace';
+import { isValidCurrency } from '../utils/formatters';
+import { listTimeZones, getBrowserTimeZone } from '../utils/timezone';
+import { uiColors } from '../styles/uiColors';
+
+const fieldSx = {
+  '& .MuiInputBase-root': { color: uiColors.text },
+  '& .MuiInputLabel-root': { color: uiColors.subtext },
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255,255,255,0.1)' }
+};
+
+/**
+ * Check a workspace can be saved
+ * The default workspace's URL and key come from the environment, so are not checked
+ */
+const isValidWorkspace = (workspace: Workspace): boolean => {
+  if (!workspace.name.trim() || !isValidCurrency(workspace.currency)) {
+    return false;
+  }
+  return workspace.id === DEFAULT_WORKSPACE_ID ||
+    (/^https?:\/\/\S+$/.test(workspace.url.trim()) && !!workspace.key.trim());
+};
+
+interface WorkspaceDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Dialog for adding, editing and removing workspaces
+ */
+const WorkspaceDialog: React.FC<WorkspaceDialogProps> = ({ open, onClose }) => {
+  const { workspaces, saveWorkspaces } = useWorkspaces();
+  const [drafts, setDrafts] = useState<Workspace[]>([]);
+  const [wasOpen, setWasOpen] = useState(false);
+  const timeZoneOptions = useMemo(() => ['browser', ...listTimeZones()], []);
+
+  // Start from the saved workspaces each time the dialog opens
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setDrafts(workspaces);
+    }
+  }
+
+  const isValid = drafts.every(isValidWorkspace);
+
+  const updateDraft = (id: string, changes: Partial<Workspace>) => {
+    setDrafts(prevDrafts => prevDrafts.map(draft => draft.id === id ? { ...draft, ...changes } : draft));
+  };
+
+  const handleSave = () => {
+    saveWorkspaces(drafts.map(draft => ({
+      ...draft,
+      name: draft.name.trim(),
+      url: draft.url.trim().replace(/\/+$/, ''),
+      key: draft.key.trim(),
+      currency: draft.currency.toUpperCase()
+    })));
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        sx: {
+          bgcolor: uiColors.cardBg,
+          color: uiColors.text,
+          border: `1px solid ${uiColors.border}`,
+          borderRadius: '12px'
+        }
+      }}
+    >
+      <DialogTitle sx={{ fontWeight: 600, fontSize: '1.125rem' }}>Workspaces</DialogTitle>
+      <DialogContent>
+        {drafts.map(draft => {
+          const isDefault = draft.id === DEFAULT_WORKSPACE_ID;
+          return (
+            <Box key={draft.id} sx={{ mb: 2, pb: 2, borderBottom: `1px solid ${uiColors.border}` }}>
+              <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center', pt: 1 }}>
+                <TextField
+                  size="small"
+                  label="Name"
+                  value={draft.name}
+                  error={!draft.name.trim()}
+                  onChange={(event) => updateDraft(draft.id, { name: event.target.value })}
+                  sx={{ ...fieldSx, flexGrow: 1 }}
+                />
+                <Autocomplete
+                  size="small"
+                  value={draft.timeZone}
+                  options={timeZoneOptions}
+                  disableClearable
+                  getOptionLabel={(option) => option === 'browser' ? `Browser (${getBrowserTimeZone()})` : option.replace(/_/g, ' ')}
+                  onChange={(_, value) => updateDraft(draft.id, { timeZone: value })}
+                  sx={{ width: 220 }}
+                  renderInput={(params) => <TextField {...params} label="Timezone" sx={fieldSx} />}
+                />
+                <TextField
+                  size="small"
+                  label="Currency"
+                  value={draft.currency}
+                  error={!isValidCurrency(draft.currency)}
+                  onChange={(event) => updateDraft(draft.id, { currency: event.target.value.toUpperCase() })}
+                  inputProps={{ maxLength: 3 }}
+                  sx={{ ...fieldSx, width: 100 }}
+                />
+                <IconButton
+                  onClick={() => setDrafts(prevDrafts => prevDrafts.filter(item => item.id !== draft.id))}
+                  disabled={isDefault}
+                  sx={{ color: uiColors.subtext, visibility: isDefault ? 'hidden' : 'visible' }}
+                  aria-label="Remove workspace"
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+              <Box sx={{ display: 'flex', gap: 1.5, mt: 1.5 }}>
+                <TextField
+                  size="small"
+                  label="Supabase URL"
+                  placeholder="https://project.supabase.co"
+                  value={draft.url}
+                  disabled={isDefault}
+                  error={!isDefault && !/^https?:\/\/\S+$/.test(draft.url.trim())}
+                  onChange={(event) => updateDraft(draft.id, { url: event.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                  sx={{ ...fieldSx, flexGrow: 1 }}
+                />
+                <TextField
+                  size="small"
+                  label="API key"
+                  type="password"
+                  value={draft.key}
+                  disabled={isDefault}
+                  error={!isDefault && !draft.key.trim()}
+                  onChange={(event) => updateDraft(draft.id, { key: event.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                  sx={{ ...fieldSx, flexGrow: 1 }}
+                />
+              </Box>
+              {isDefault && (
+                <Typography variant="caption" sx={{ color: uiColors.subtext, display: 'block', mt: 0.5 }}>
+                  The default workspace's data source is set in the environment
+                </Typography>
+              )}
+            </Box>
+          );
+        })}
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() => setDrafts(prevDrafts => [
+            ...prevDrafts,
+            { id: crypto.randomUUID(), name: '', url: '', key: '', timeZone: 'browser', currency: 'USD' }
+          ])}
+          sx={{ color: uiColors.accent, textTransform: 'none' }}
+        >
+          Add workspace
+        </Button>
+        <Typography variant="caption" sx={{ display: 'block', color: uiColors.subtext, mt: 1 }}>
+          {isAuthRequired()
+            ? 'Saved in this browser. Projects are read as the signed-in user, so they have to accept sign-ins of the default project (share its JWT secret).'
+            : "Saved in this browser. Use each project's anon key, its calls table must be readable with it."}
+        </Typography>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: uiColors.subtext, textTransform: 'none' }}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={!isValid}
+          variant="contained"
+          sx={{ bgcolor: uiColors.accent, borderRadius: '8px', textTransform: 'none' }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default WorkspaceDialog;
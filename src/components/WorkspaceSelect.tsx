@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Divider, FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useWorkspaces } from '../context/WorkspaceContext';
+import WorkspaceDialog from './WorkspaceDialog';
+
+// Menu values that are actions rather than workspaces
+const ALL_WORKSPACES = '__all__';
+const MANAGE_WORKSPACES = '__manage__';
+
+/**
+ * Header control for switching workspace, opening the all-workspaces
+ * roll-up and managing the workspace registry
+ */
+const WorkspaceSelect: React.FC = () => {
+  const { workspaces, activeWorkspace, switchWorkspace } = useWorkspaces();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const isRollup = location.pathname === '/workspaces';
+
+  const handleChange = (value: string) => {
+    if (value === MANAGE_WORKSPACES) {
+      setIsDialogOpen(true);
+    } else if (value === ALL_WORKSPACES) {
+      navigate({ pathname: '/workspaces', search: location.search });
+    } else {
+      // Leave the roll-up for the workspace's dashboard
+      switchWorkspace(value, isRollup ? '/' : undefined);
+    }
+  };
+
+  return (
+    <>
+      <FormControl sx={{ minWidth: 160, maxWidth: 240 }}>
+        <InputLabel id="workspace-select-label">Workspace</InputLabel>
+        <Select
+          labelId="workspace-select-label"
+          id="workspace-select"
+          value={isRollup ? ALL_WORKSPACES : activeWorkspace.id}
+          label="Workspace"
+          onChange={(event) => handleChange(event.target.value)}
+        >
+          {workspaces.map(workspace => (
+            <MenuItem key={workspace.id} value={workspace.id}>{workspace.name}</MenuItem>
+          ))}
+          {(workspaces.length > 1 || isRollup) && <MenuItem value={ALL_WORKSPACES}>All workspaces</MenuItem>}
+          <Divider />
+          <MenuItem value={MANAGE_WORKSPACES}>Manage workspaces…</MenuItem>
+        </Select>
+      </FormControl>
+      <WorkspaceDialog open={isDialogOpen} onClose={() => setIsDialogOpen(false)} />
+    </>
+  );
+};
+
+export default WorkspaceSelect;
@@ -0,0 +1,53 @@
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { Annotation } from '../types/annotation';
+import { getSettingsStore } from '../services/settingsStore';
+
+// Settings key annotations are saved under
+const ANNOTATIONS_SETTING = 'annotations';
+
+interface AnnotationContextProps {
+  annotations: Annotation[];
+  /** Replace all annotations and save them to the settings store */
+  saveAnnotations: (annotations: Annotation[]) => Promise<void>;
+}
+
+const AnnotationContext = createContext<AnnotationContextProps>({
+  annotations: [],
+  saveAnnotations: async () => {},
+});
+
+export const useAnnotations = () => useContext(AnnotationContext);
+
+interface AnnotationProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Loads chart annotations from the settings store and shares them with the dashboard
+ */
+export const AnnotationProvider: React.FC<AnnotationProviderProps> = ({ children }) => {
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+
+  useEffect(() => {
+    const loadAnnotations = async () => {
+      try {
+        setAnnotations(await getSettingsStore().load<Annotation[]>(ANNOTATIONS_SETTING) || []);
+      } catch (error) {
+        console.error('Error loading annotations:', error);
+      }
+    };
+
+    loadAnnotations();
+  }, []);
+
+  const saveAnnotations = async (value: Annotation[]) => {
+    await getSettingsStore().save(ANNOTATIONS_SETTING, value);
+    setAnnotations(value);
+  };
+
+  return (
+    <AnnotationContext.Provider value={{ annotations, saveAnnotations }}>
+      {children}
+    </AnnotationContext.Provider>
+  );
+};
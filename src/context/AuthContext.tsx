@@ -0,0 +1,78 @@
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { AuthSession } from '../types/auth';
+import {
+  getSession,
+  restoreSession,
+  signInWithPassword,
+  sendMagicLink,
+  signOut,
+  subscribeToAuthChanges
+} from '../services/auth';
+import { isAuthRequired } from '../services/apiService';
+
+interface AuthContextProps {
+  /** Whether users have to sign in before seeing data */
+  isAuthEnabled: boolean;
+  /** Signed-in user's session, null when signed out */
+  session: AuthSession | null;
+  /** Whether the session is still being restored at startup */
+  isRestoring: boolean;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  /** Email a sign-in link that returns to a page of the dashboard, its start page by default */
+  sendMagicLink: (email: string, path?: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextProps>({
+  isAuthEnabled: false,
+  session: null,
+  isRestoring: false,
+  signInWithPassword: async () => {},
+  sendMagicLink: async () => {},
+  signOut: async () => {},
+});
+
+export const useAuth = () => useContext(AuthContext);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Restores the signed-in user's session and shares it with the routes
+ */
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [isAuthEnabled] = useState(isAuthRequired);
+  const [session, setSession] = useState<AuthSession | null>(getSession);
+  const [isRestoring, setIsRestoring] = useState<boolean>(isAuthEnabled);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAuthChanges(setSession);
+    if (isAuthEnabled) {
+      restoreSession()
+        .catch(error => console.error('Error restoring session:', error))
+        .finally(() => {
+          setSession(getSession());
+          setIsRestoring(false);
+        });
+    }
+    return unsubscribe;
+  }, [isAuthEnabled]);
+
+  const value: AuthContextProps = {
+    isAuthEnabled,
+    session,
+    isRestoring,
+    signInWithPassword: async (email, password) => {
+      await signInWithPassword(email, password);
+    },
+    sendMagicLink: (email, path = '/') => sendMagicLink(email, `${window.location.origin}${path}`),
+    signOut
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { Budget } from '../types/budget';
+import { getSettingsStore } from '../services/settingsStore';
+
+// Settings key budgets are saved under
+const BUDGETS_SETTING = 'budgets';
+
+interface BudgetContextProps {
+  budgets: Budget[];
+  /** Replace all budgets and save them to the settings store */
+  saveBudgets: (budgets: Budget[]) => Promise<void>;
+}
+
+const BudgetContext = createContext<BudgetContextProps>({
+  budgets: [],
+  saveBudgets: async () => {},
+});
+
+export const useBudgets = () => useContext(BudgetContext);
+
+interface BudgetProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Loads cost budgets from the settings store and shares them with the dashboard
+ */
+export const BudgetProvider: React.FC<BudgetProviderProps> = ({ children }) => {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+
+  useEffect(() => {
+    const loadBudgets = async () => {
+      try {
+        setBudgets(await getSettingsStore().load<Budget[]>(BUDGETS_SETTING) || []);
+      } catch (error) {
+        console.error('Error loading budgets:', error);
+      }
+    };
+
+    loadBudgets();
+  }, []);
+
+  const saveBudgets = async (value: Budget[]) => {
+    await getSettingsStore().save(BUDGETS_SETTING, value);
+    setBudgets(value);
+  };
+
+  return (
+    <BudgetContext.Provider value={{ budgets, saveBudgets }}>
+      {children}
+    </BudgetContext.Provider>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { createContext, useState, useContext, useCallback, useMemo, ReactNode } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTimezone } from './TimezoneContext';
+import { startOfZonedDay, startOfZonedMonth } from '../utils/timezone';
+import { withSearchParams, parseDateParam } from '../utils/searchParams';
+import { validateCustomRange } from '../utils/dateRange';
+import { getFirstCallDate } from '../services/apiService';
+
+export type TimeRangePreset = 'day' | 'week' | 'month' | 'quarter' | 'thisMonth' | 'lastMonth' | 'all';
+
+export type TimeRange = TimeRangePreset | 'custom';
+
+const TIME_RANGE_PRESETS: TimeRangePreset[] = ['day', 'week', 'month', 'quarter', 'thisMonth', 'lastMonth', 'all'];
+
+// Range selected when the URL names none
+const DEFAULT_TIME_RANGE: TimeRangePreset = 'week';
+
+// URL search params holding the selected range, with the dates of custom ranges in ISO format
+const RANGE_PARAM = 'range';
+const FROM_PARAM = 'from';
+const TO_PARAM = 'to';
+
+interface DateRangeContextProps {
+  timeRange: TimeRange;
+  startDate: Date;
+  endDate: Date;
+  setTimeRange: (range: TimeRangePreset) => void;
+  setCustomRange: (startDate: Date, endDate: Date) => void;
+  /** Move a preset range up to the current time, custom ranges stay as picked */
+  refreshRange: () => void;
+}
+
+/**
+ * Resolve a time range preset into concrete start and end dates
+ * @param range Time range preset
+ * @param now Reference time, defaults to the current time
+ * @param timeZone IANA timezone that calendar-based presets are aligned to
+ * @returns Start and end dates for the preset
+ */
+export const getPresetRange = (
+  range: TimeRangePreset,
+  now: Date = new Date(),
+  timeZone = 'UTC'
+): { startDate: Date; endDate: Date } => {
+  switch (range) {
+    case 'day':
+      // Start at the beginning of today (midnight in the timezone) and include all data so far today
+      return { startDate: startOfZonedDay(now, timeZone), endDate: now };
+    case 'month':
+      return { startDate: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000), endDate: now };
+    case 'quarter':
+      return { startDate: new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000), endDate: now };
+    case 'thisMonth':
+      return { startDate: startOfZonedMonth(now, timeZone), endDate: now };
+    case 'lastMonth':
+      // Exact calendar month, ending the millisecond before this month starts
+      return {
+        startDate: startOfZonedMonth(now, timeZone, -1),
+        endDate: new Date(startOfZonedMonth(now, timeZone).getTime() - 1)
+      };
+    case 'all':
+      // Set to a very old date to get all data
+      return { startDate: new Date(Date.UTC(2000, 0, 1)), endDate: now };
+    case 'week':
+    default:
+      return { startDate: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000), endDate: now };
+  }
+};
+
+const DateRangeContext = createContext<DateRangeContextProps>({
+  timeRange: DEFAULT_TIME_RANGE,
+  ...getPresetRange(DEFAULT_TIME_RANGE),
+  setTimeRange: () => {},
+  setCustomRange: () => {},
+  refreshRange: () => {},
+});
+
+export const useDateRange = () => useContext(DateRangeContext);
+
+interface DateRangeProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Range selected in the URL, a preset or a custom range with its dates
+ */
+type RangeSelection = { timeRange: TimeRangePreset } | { timeRange: 'custom'; startDate: Date; endDate: Date };
+
+/**
+ * Read the selected range from the URL, the default preset when it names none
+ * Custom ranges are checked like ranges picked in the date picker, so a
+ * hand-edited or stale link with an inverted, future or too early range
+ * falls back to the default preset too
+ * @param params URL search params
+ * @param timeZone IANA timezone calendar days are checked in
+ */
+const parseRangeParams = (params: URLSearchParams, timeZone: string): RangeSelection => {
+  const value = params.get(RANGE_PARAM);
+  if (value === 'custom') {
+    const startDate = parseDateParam(params.get(FROM_PARAM));
+    const endDate = parseDateParam(params.get(TO_PARAM));
+    const now = new Date();
+    if (startDate && endDate && !validateCustomRange(startDate, endDate, timeZone, getFirstCallDate(), now)) {
+      // Ranges reaching today end now, as when picked
+      return { timeRange: 'custom', startDate, endDate: endDate > now ? now : endDate };
+    }
+  }
+  return { timeRange: TIME_RANGE_PRESETS.find(preset => preset === value) || DEFAULT_TIME_RANGE };
+};
+
+/**
+ * Shares the selected date range between the dashboard and the call log
+ * The selection is kept in the URL, so reloads, shared links and back and
+ * forward navigation show the same range
+ */
+export const DateRangeProvider: React.FC<DateRangeProviderProps> = ({ children }) => {
+  const { timeZone } = useTimezone();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selected = parseRangeParams(searchParams, timeZone);
+  const timeRange = selected.timeRange;
+
+  const resolveRange = () => selected.timeRange === 'custom'
+    ? { startDate: selected.startDate, endDate: selected.endDate }
+    : getPresetRange(selected.timeRange, new Date(), timeZone);
+
+  const [range, setRange] = useState(resolveRange);
+
+  // Resolve the range again when the URL selects another one, and re-align
+  // calendar-based presets when the timezone changes
+  const selection = `${searchParams.get(RANGE_PARAM)}|${searchParams.get(FROM_PARAM)}|${searchParams.get(TO_PARAM)}|${timeZone}`;
+  const [rangeSelection, setRangeSelection] = useState(selection);
+  if (rangeSelection !== selection) {
+    setRangeSelection(selection);
+    setRange(resolveRange());
+  }
+
+  // Stable callbacks and value, so effects depending on them (e.g. auto-refresh)
+  // aren't set up again on every render
+  const setTimeRange = useCallback((value: TimeRangePreset) => {
+    setSearchParams(prevParams => withSearchParams(prevParams, {
+      [RANGE_PARAM]: value === DEFAULT_TIME_RANGE ? null : value,
+      [FROM_PARAM]: null,
+      [TO_PARAM]: null
+    }));
+  }, [setSearchParams]);
+
+  const setCustomRange = useCallback((startDate: Date, endDate: Date) => {
+    setSearchParams(prevParams => withSearchParams(prevParams, {
+      [RANGE_PARAM]: 'custom',
+      [FROM_PARAM]: startDate.toISOString(),
+      [TO_PARAM]: endDate.toISOString()
+    }));
+  }, [setSearchParams]);
+
+  const refreshRange = useCallback(() => {
+    if (timeRange !== 'custom') {
+      setRange(getPresetRange(timeRange, new Date(), timeZone));
+    }
+  }, [timeRange, timeZone]);
+
+  const value = useMemo(
+    () => ({ timeRange, ...range, setTimeRange, setCustomRange, refreshRange }),
+    [timeRange, range, setTimeRange, setCustomRange, refreshRange]
+  );
+
+  return (
+    <DateRangeContext.Provider value={value}>
+      {children}
+    </DateRangeContext.Provider>
+  );
+};
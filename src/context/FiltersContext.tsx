@@ -0,0 +1,66 @@
+import React, { createContext, useMemo, useContext, ReactNode } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { CallFilters, EndReasonCategory } from '../types/api';
+import { withSearchParams } from '../utils/searchParams';
+import { END_REASON_CATEGORIES } from '../utils/endReasons';
+
+// URL search param repeated for each selected assistant
+const ASSISTANT_PARAM = 'assistant';
+
+// URL search param repeated for each selected end reason category
+const END_REASON_PARAM = 'reason';
+
+interface FiltersContextProps {
+  /** Filters applied to every query */
+  filters: CallFilters;
+  setAssistants: (assistants: string[]) => void;
+  setEndReasonCategories: (categories: EndReasonCategory[]) => void;
+}
+
+const FiltersContext = createContext<FiltersContextProps>({
+  filters: {},
+  setAssistants: () => {},
+  setEndReasonCategories: () => {},
+});
+
+export const useFilters = () => useContext(FiltersContext);
+
+interface FiltersProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Shares the call filters between the dashboard and the call log
+ * Filters are kept in the URL, so shared links open with the same filters
+ */
+export const FiltersProvider: React.FC<FiltersProviderProps> = ({ children }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Keep the same filters object while the selection is unchanged, as queries refetch when it changes
+  // Unknown categories in the URL are ignored
+  const selected = JSON.stringify([
+    searchParams.getAll(ASSISTANT_PARAM),
+    END_REASON_CATEGORIES.filter(category => searchParams.getAll(END_REASON_PARAM).includes(category))
+  ]);
+  const filters = useMemo<CallFilters>(() => {
+    const [assistants, endReasonCategories]: [string[], EndReasonCategory[]] = JSON.parse(selected);
+    return {
+      ...(assistants.length > 0 ? { assistants } : {}),
+      ...(endReasonCategories.length > 0 ? { endReasonCategories } : {})
+    };
+  }, [selected]);
+
+  const setAssistants = (assistants: string[]) => {
+    setSearchParams(prevParams => withSearchParams(prevParams, { [ASSISTANT_PARAM]: assistants }));
+  };
+
+  const setEndReasonCategories = (categories: EndReasonCategory[]) => {
+    setSearchParams(prevParams => withSearchParams(prevParams, { [END_REASON_PARAM]: categories }));
+  };
+
+  return (
+    <FiltersContext.Provider value={{ filters, setAssistants, setEndReasonCategories }}>
+      {children}
+    </FiltersContext.Provider>
+  );
+};
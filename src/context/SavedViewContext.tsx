@@ -0,0 +1,53 @@
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { SavedView } from '../types/savedView';
+import { getSettingsStore } from '../services/settingsStore';
+
+// Settings key saved views are saved under
+const SAVED_VIEWS_SETTING = 'views';
+
+interface SavedViewContextProps {
+  views: SavedView[];
+  /** Replace all saved views and save them to the settings store */
+  saveViews: (views: SavedView[]) => Promise<void>;
+}
+
+const SavedViewContext = createContext<SavedViewContextProps>({
+  views: [],
+  saveViews: async () => {},
+});
+
+export const useSavedViews = () => useContext(SavedViewContext);
+
+interface SavedViewProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Loads saved views from the settings store and shares them with the dashboard
+ */
+export const SavedViewProvider: React.FC<SavedViewProviderProps> = ({ children }) => {
+  const [views, setViews] = useState<SavedView[]>([]);
+
+  useEffect(() => {
+    const loadViews = async () => {
+      try {
+        setViews(await getSettingsStore().load<SavedView[]>(SAVED_VIEWS_SETTING) || []);
+      } catch (error) {
+        console.error('Error loading saved views:', error);
+      }
+    };
+
+    loadViews();
+  }, []);
+
+  const saveViews = async (value: SavedView[]) => {
+    await getSettingsStore().save(SAVED_VIEWS_SETTING, value);
+    setViews(value);
+  };
+
+  return (
+    <SavedViewContext.Provider value={{ views, saveViews }}>
+      {children}
+    </SavedViewContext.Provider>
+  );
+};
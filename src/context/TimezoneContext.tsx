@@ -0,0 +1,72 @@
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { TimeZoneSetting, resolveTimeZone, isValidTimeZone, getBrowserTimeZone } from '../utils/timezone';
+import { withSearchParams } from '../utils/searchParams';
+
+// URL search param naming the timezone, so shared links are bucketed the same for everyone
+const TIME_ZONE_PARAM = 'tz';
+
+interface TimezoneContextProps {
+  /** Selected setting: 'browser', 'UTC' or an IANA zone */
+  timeZoneSetting: TimeZoneSetting;
+  /** IANA zone the setting resolves to */
+  timeZone: string;
+  /** Select a timezone, opening another page with it when a pathname is given */
+  setTimeZone: (setting: TimeZoneSetting, pathname?: string) => void;
+}
+
+const TimezoneContext = createContext<TimezoneContextProps>({
+  timeZoneSetting: 'browser',
+  timeZone: getBrowserTimeZone(),
+  setTimeZone: () => {},
+});
+
+export const useTimezone = () => useContext(TimezoneContext);
+
+interface TimezoneProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Shares the selected timezone, taken from the URL when it names one and
+ * from the saved preference otherwise
+ */
+export const TimezoneProvider: React.FC<TimezoneProviderProps> = ({ children }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  // Initialize timezone from localStorage or default to the browser's zone
+  const [savedSetting, setSavedSetting] = useState<TimeZoneSetting>(() => {
+    const savedTimeZone = localStorage.getItem('timezone');
+    return savedTimeZone && (savedTimeZone === 'browser' || isValidTimeZone(savedTimeZone))
+      ? savedTimeZone
+      : 'browser';
+  });
+
+  useEffect(() => {
+    // Save timezone preference to localStorage
+    localStorage.setItem('timezone', savedSetting);
+  }, [savedSetting]);
+
+  const linkedTimeZone = searchParams.get(TIME_ZONE_PARAM);
+  const timeZoneSetting = linkedTimeZone && isValidTimeZone(linkedTimeZone) ? linkedTimeZone : savedSetting;
+
+  const setTimeZone = (setting: TimeZoneSetting, pathname?: string) => {
+    if (setting === 'browser' || isValidTimeZone(setting)) {
+      setSavedSetting(setting);
+      // The browser's zone differs between viewers, so it is left out of the URL
+      const params = withSearchParams(searchParams, { [TIME_ZONE_PARAM]: setting === 'browser' ? null : setting });
+      if (pathname) {
+        navigate({ pathname, search: params.toString() });
+      } else {
+        setSearchParams(params);
+      }
+    }
+  };
+
+  return (
+    <TimezoneContext.Provider value={{ timeZoneSetting, timeZone: resolveTimeZone(timeZoneSetting), setTimeZone }}>
+      {children}
+    </TimezoneContext.Provider>
+  );
+};
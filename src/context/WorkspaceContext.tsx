@@ -0,0 +1,96 @@
+import React, { createContext, useState, useContext, ReactNode } from 'react';
+import { Workspace } from '../types/workspace';
+import { useTimezone } from './TimezoneContext';
+import { selectWorkspace } from '../services/apiService';
+import {
+  DEFAULT_WORKSPACE_ID,
+  loadWorkspaces,
+  saveWorkspaces as storeWorkspaces,
+  loadActiveWorkspaceId,
+  saveActiveWorkspaceId
+} from '../services/workspaces';
+import { setCurrency } from '../utils/formatters';
+
+interface WorkspaceContextProps {
+  /** Every workspace, the default one first */
+  workspaces: Workspace[];
+  /** Workspace the dashboard reads from */
+  activeWorkspace: Workspace;
+  /** Open a workspace, switching to its timezone, on another page when a pathname is given */
+  switchWorkspace: (id: string, pathname?: string) => void;
+  /** Replace all workspaces and save them in this browser */
+  saveWorkspaces: (workspaces: Workspace[]) => void;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextProps>({
+  workspaces: [],
+  activeWorkspace: {
+    id: DEFAULT_WORKSPACE_ID,
+    name: 'Default',
+    url: '',
+    key: '',
+    timeZone: 'browser',
+    currency: 'USD'
+  },
+  switchWorkspace: () => {},
+  saveWorkspaces: () => {},
+});
+
+export const useWorkspaces = () => useContext(WorkspaceContext);
+
+/**
+ * Bind the data layer and cost formatting to a workspace
+ */
+const applyWorkspace = (workspace: Workspace) => {
+  selectWorkspace(workspace);
+  setCurrency(workspace.currency);
+};
+
+interface WorkspaceProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Keeps the workspace registry and binds the data layer to the open workspace
+ */
+export const WorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ children }) => {
+  const { setTimeZone } = useTimezone();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(loadWorkspaces);
+  const [activeId, setActiveId] = useState<string>(() => {
+    const saved = loadActiveWorkspaceId();
+    const workspace = workspaces.find(item => item.id === saved) || workspaces[0];
+    // Bound before the first render, so the first fetches read from the right project
+    applyWorkspace(workspace);
+    return workspace.id;
+  });
+
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeId) || workspaces[0];
+
+  const switchWorkspace = (id: string, pathname?: string) => {
+    const workspace = workspaces.find(item => item.id === id);
+    if (!workspace) {
+      return;
+    }
+    applyWorkspace(workspace);
+    setTimeZone(workspace.timeZone, pathname);
+    saveActiveWorkspaceId(id);
+    setActiveId(id);
+  };
+
+  const saveWorkspaces = (value: Workspace[]) => {
+    storeWorkspaces(value);
+    setWorkspaces(value);
+
+    // Rebind when the open workspace was edited, or go back to the default one when it was removed
+    const workspace = value.find(item => item.id === activeId) || value[0];
+    applyWorkspace(workspace);
+    saveActiveWorkspaceId(workspace.id);
+    setActiveId(workspace.id);
+  };
+
+  return (
+    <WorkspaceContext.Provider value={{ workspaces, activeWorkspace, switchWorkspace, saveWorkspaces }}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
@@ -0,0 +1,443 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Typography,
+  Box,
+  Button,
+  Card,
+  Chip,
+  CircularProgress,
+  Drawer,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TableSortLabel,
+  Tab,
+  Tabs
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { Link as RouterLink, useLocation } from 'react-router-dom';
+import { useDateRange } from '../context/DateRangeContext';
+import { useTimezone } from '../context/TimezoneContext';
+import { useFilters } from '../context/FiltersContext';
+import AssistantSelect from '../components/AssistantSelect';
+import EndReasonSelect from '../components/EndReasonSelect';
+import TranscriptViewer from '../components/TranscriptViewer';
+import RecordingPlayer from '../components/RecordingPlayer';
+import ApiErrorAlert from '../components/ApiErrorAlert';
+import AccountMenu from '../components/AccountMenu';
+import WorkspaceSelect from '../components/WorkspaceSelect';
+import { fetchCallDetails, fetchCallRecord, invalidateCachedData, subscribeToCachedDataUpdates } from '../services/apiService';
+import { toApiError } from '../services/apiClient';
+import { formatDate, formatDateTime, formatCurrency, formatDuration } from '../utils/formatters';
+import { endReasonCategoryLabels, formatEndReason } from '../utils/endReasons';
+import { getTranscriptTurns } from '../utils/transcript';
+import { resolveRecordingUrl } from '../utils/recordings';
+import { ApiError, CallDetail, CallRecord, CallSort, CallSortField } from '../types/api';
+import { uiColors } from '../styles/uiColors';
+
+const columns: { field: CallSortField | null; label: string; align: 'left' | 'right' }[] = [
+  { field: 'timestamp', label: 'Time', align: 'left' },
+  { field: 'duration', label: 'Duration', align: 'right' },
+  { field: 'cost', label: 'Cost', align: 'right' },
+  { field: null, label: 'Assistant', align: 'left' },
+  { field: null, label: 'End Reason', align: 'left' },
+  { field: null, label: 'Customer', align: 'left' }
+];
+
+// Record fields shown on the transcript tab rather than the details tab
+const TRANSCRIPT_FIELDS = ['transcript', 'messages', 'recording_url'];
+
+const cellSx = {
+  color: uiColors.text,
+  borderColor: uiColors.border
+};
+
+const Calls: React.FC = () => {
+  const { startDate, endDate } = useDateRange();
+  const location = useLocation();
+  const { timeZone } = useTimezone();
+  const { filters } = useFilters();
+  const [calls, setCalls] = useState<CallDetail[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [page, setPage] = useState<number>(0);
+  const [pageSize, setPageSize] = useState<number>(25);
+  const [sort, setSort] = useState<CallSort>({ field: 'timestamp', direction: 'desc' });
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [retryCount, setRetryCount] = useState<number>(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedRecord, setSelectedRecord] = useState<CallRecord | null>(null);
+  const [isRecordLoading, setIsRecordLoading] = useState<boolean>(false);
+  const [recordTab, setRecordTab] = useState<'transcript' | 'details'>('transcript');
+  const [playbackTime, setPlaybackTime] = useState<number>(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [reloadCount, setReloadCount] = useState<number>(0);
+  const handledReloadRef = useRef<number>(0);
+
+  // Go back to the first page whenever the range, filters or sort order change
+  useEffect(() => {
+    setPage(0);
+  }, [startDate, endDate, filters, sort]);
+
+  useEffect(() => {
+    // Abort the previous page's request so it can't overwrite this one
+    const controller = new AbortController();
+
+    // Reloads with refreshed data swap the rows in place, without the spinner
+    const isReload = reloadCount !== handledReloadRef.current;
+    handledReloadRef.current = reloadCount;
+
+    const fetchData = async () => {
+      if (!isReload) {
+        setIsLoading(true);
+      }
+      setError(null);
+      try {
+        const result = await fetchCallDetails(page + 1, pageSize, startDate, endDate, sort, filters, controller.signal);
+        setCalls(result.data);
+        setTotal(result.total);
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('Error fetching calls:', error);
+        setError(toApiError(error));
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [page, pageSize, startDate, endDate, sort, filters, reloadCount, retryCount]);
+
+  // Cached pages are shown instantly and refreshed in the background, fetch again when they changed
+  useEffect(() => subscribeToCachedDataUpdates(() => setReloadCount(count => count + 1)), []);
+
+  const retry = () => {
+    invalidateCachedData();
+    setRetryCount(count => count + 1);
+  };
+
+  useEffect(() => {
+    setPlaybackTime(0);
+    if (!selectedId) {
+      setSelectedRecord(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const fetchRecord = async () => {
+      setIsRecordLoading(true);
+      try {
+        setSelectedRecord(await fetchCallRecord(selectedId, controller.signal));
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('Error fetching call record:', error);
+        setSelectedRecord(null);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsRecordLoading(false);
+        }
+      }
+    };
+
+    fetchRecord();
+    return () => controller.abort();
+  }, [selectedId]);
+
+  const transcriptTurns = selectedRecord ? getTranscriptTurns(selectedRecord) : [];
+  const recordingUrl = resolveRecordingUrl(selectedRecord?.recording_url);
+
+  // The turn playing is the last one that started before the playback position
+  const activeTurn = recordingUrl
+    ? transcriptTurns.reduce<number | null>(
+      (active, turn, index) => turn.secondsFromStart !== null && turn.secondsFromStart <= playbackTime ? index : active,
+      null
+    )
+    : null;
+
+  const handleSort = (field: CallSortField) => {
+    setSort(prevSort => ({
+      field,
+      direction: prevSort.field === field && prevSort.direction === 'desc' ? 'asc' : 'desc'
+    }));
+  };
+
+  return (
+    <Box sx={{
+      bgcolor: uiColors.background,
+      minHeight: '100vh',
+      p: 3,
+      color: uiColors.text
+    }}>
+      <Box sx={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        mb: 4,
+        borderBottom: `1px solid ${uiColors.border}`,
+        pb: 2
+      }}>
+        <Box>
+          <Typography
+            variant="h4"
+            component="h1"
+            sx={{
+              fontWeight: 600,
+              letterSpacing: '-0.025em'
+            }}
+          >
+            Calls
+          </Typography>
+          <Typography variant="body2" sx={{ color: uiColors.subtext, mt: 0.5 }}>
+            {formatDate(startDate.toISOString(), 'medium', timeZone)} – {formatDate(endDate.toISOString(), 'medium', timeZone)}
+          </Typography>
+        </Box>
+        <Box sx={{
+          display: 'flex',
+          gap: 2,
+          alignItems: 'center',
+          '& .MuiInputBase-root': {
+            color: uiColors.text,
+            bgcolor: 'rgba(255,255,255,0.05)',
+            borderRadius: '8px'
+          },
+          '& .MuiOutlinedInput-notchedOutline': {
+            borderColor: 'rgba(255,255,255,0.1)'
+          },
+          '& .MuiInputLabel-root': {
+            color: uiColors.subtext
+          }
+        }}>
+          <WorkspaceSelect />
+          <AssistantSelect />
+          <EndReasonSelect />
+          <Button
+            component={RouterLink}
+            to={{ pathname: '/', search: location.search }}
+            variant="outlined"
+            sx={{
+              color: uiColors.text,
+              borderColor: 'rgba(255,255,255,0.1)',
+              borderRadius: '8px',
+              textTransform: 'none',
+              height: 56
+            }}
+          >
+            Back to Dashboard
+          </Button>
+          <AccountMenu />
+        </Box>
+      </Box>
+
+      {error && <ApiErrorAlert error={error} onRetry={retry} />}
+
+      <Card
+        elevation={0}
+        sx={{
+          bgcolor: uiColors.cardBg,
+          borderRadius: '12px',
+          border: `1px solid ${uiColors.border}`,
+          overflow: 'hidden'
+        }}
+      >
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                {columns.map(column => (
+                  <TableCell
+                    key={column.label}
+                    align={column.align}
+                    sx={{ ...cellSx, color: uiColors.subtext, fontWeight: 600 }}
+                  >
+                    {column.field ? (
+                      <TableSortLabel
+                        active={sort.field === column.field}
+                        direction={sort.field === column.field ? sort.direction : 'desc'}
+                        onClick={() => handleSort(column.field as CallSortField)}
+                        sx={{
+                          color: 'inherit !important',
+                          '& .MuiTableSortLabel-icon': { color: `${uiColors.subtext} !important` }
+                        }}
+                      >
+                        {column.label}
+                      </TableSortLabel>
+                    ) : column.label}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={columns.length} align="center" sx={{ ...cellSx, py: 5 }}>
+                    <CircularProgress sx={{ color: uiColors.accent }} />
+                  </TableCell>
+                </TableRow>
+              ) : calls.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columns.length} align="center" sx={{ ...cellSx, color: uiColors.subtext, py: 5 }}>
+                    No calls in this range
+                  </TableCell>
+                </TableRow>
+              ) : (
+                calls.map(call => (
+                  <TableRow
+                    key={call.id}
+                    hover
+                    selected={call.id === selectedId}
+                    onClick={() => setSelectedId(call.id)}
+                    sx={{
+                      cursor: 'pointer',
+                      '&.MuiTableRow-hover:hover': { bgcolor: 'rgba(255,255,255,0.04)' },
+                      '&.Mui-selected': { bgcolor: 'rgba(99,102,241,0.15)' }
+                    }}
+                  >
+                    <TableCell sx={cellSx}>{formatDateTime(call.timestamp, timeZone)}</TableCell>
+                    <TableCell align="right" sx={cellSx}>{formatDuration(call.duration)}</TableCell>
+                    <TableCell align="right" sx={cellSx}>{formatCurrency(call.cost)}</TableCell>
+                    <TableCell sx={cellSx}>{call.assistant || '—'}</TableCell>
+                    <TableCell sx={cellSx}>
+                      <Chip
+                        size="small"
+                        label={formatEndReason(call.endReason)}
+                        title={`${endReasonCategoryLabels[call.endReasonCategory]}: ${call.endReason}`}
+                        sx={{
+                          color: uiColors.endReasonColors[call.endReasonCategory],
+                          bgcolor: 'rgba(255,255,255,0.05)',
+                          border: `1px solid ${uiColors.endReasonColors[call.endReasonCategory]}`
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell sx={{ ...cellSx, color: uiColors.subtext }}>{call.customerNumber || 'Unknown'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <TablePagination
+          component="div"
+          count={total}
+          page={page}
+          rowsPerPage={pageSize}
+          rowsPerPageOptions={[10, 25, 50, 100]}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          onRowsPerPageChange={(event) => {
+            setPageSize(parseInt(event.target.value, 10));
+            setPage(0);
+          }}
+          sx={{
+            color: uiColors.subtext,
+            borderTop: `1px solid ${uiColors.border}`,
+            '& .MuiIconButton-root': { color: uiColors.text },
+            '& .MuiSelect-icon': { color: uiColors.subtext }
+          }}
+        />
+      </Card>
+
+      {/* Call Record Panel */}
+      <Drawer
+        anchor="right"
+        open={selectedId !== null}
+        onClose={() => setSelectedId(null)}
+        PaperProps={{
+          sx: {
+            width: { xs: '100%', sm: 560 },
+            bgcolor: uiColors.cardBg,
+            color: uiColors.text,
+            borderLeft: `1px solid ${uiColors.border}`
+          }
+        }}
+      >
+        <Box sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          p: 2,
+          borderBottom: `1px solid ${uiColors.border}`
+        }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1.125rem' }}>
+            Call Record
+          </Typography>
+          <IconButton onClick={() => setSelectedId(null)} sx={{ color: uiColors.subtext }}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+        <Tabs
+          value={recordTab}
+          onChange={(_, value) => setRecordTab(value)}
+          sx={{
+            px: 2,
+            borderBottom: `1px solid ${uiColors.border}`,
+            '& .MuiTab-root': { color: uiColors.subtext, textTransform: 'none' },
+            '& .MuiTab-root.Mui-selected': { color: uiColors.text },
+            '& .MuiTabs-indicator': { bgcolor: uiColors.accent }
+          }}
+        >
+          <Tab value="transcript" label="Transcript" />
+          <Tab value="details" label="Details" />
+        </Tabs>
+        <Box sx={{ p: 2 }}>
+          {isRecordLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 5 }}>
+              <CircularProgress sx={{ color: uiColors.accent }} />
+            </Box>
+          ) : selectedRecord && recordTab === 'transcript' ? (
+            <>
+              {recordingUrl && (
+                <RecordingPlayer
+                  key={recordingUrl}
+                  src={recordingUrl}
+                  audioRef={audioRef}
+                  onTimeUpdate={setPlaybackTime}
+                />
+              )}
+              <TranscriptViewer
+                key={selectedRecord.id}
+                turns={transcriptTurns}
+                startedAt={selectedRecord.created_at}
+                timeZone={timeZone}
+                activeTurn={activeTurn}
+                onTurnClick={recordingUrl ? (turn) => {
+                  if (audioRef.current && turn.secondsFromStart !== null) {
+                    audioRef.current.currentTime = turn.secondsFromStart;
+                    audioRef.current.play().catch(error => console.error('Error playing recording:', error));
+                  }
+                } : undefined}
+              />
+            </>
+          ) : selectedRecord ? (
+            Object.entries(selectedRecord).filter(([key]) => !TRANSCRIPT_FIELDS.includes(key)).map(([key, value]) => (
+              <Box key={key} sx={{ mb: 2 }}>
+                <Typography variant="caption" sx={{ color: uiColors.subtext }}>
+                  {key}
+                </Typography>
+                <Typography variant="body2" sx={{ wordBreak: 'break-word', whiteSpace: 'pre-wrap' }}>
+                  {value === null || value === undefined
+                    ? '—'
+                    : typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)}
+                </Typography>
+              </Box>
+            ))
+          ) : (
+            <Typography sx={{ color: uiColors.subtext }}>Call record not found</Typography>
+          )}
+        </Box>
+      </Drawer>
+    </Box>
+  );
+};
+
+export default Calls;
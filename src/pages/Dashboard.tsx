@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Grid, 
   Typography, 
@@ -12,143 +12,485 @@ import {
   CircularProgress,
   Card,
   CardContent,
-  Divider
+  Divider,
+  Button,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
-import DatePicker from 'react-datepicker';
-import 'react-datepicker/dist/react-datepicker.css';
+import { Link as RouterLink, useLocation, useSearchParams } from 'react-router-dom';
 import { 
-  LineChart, 
+  ComposedChart, 
   Line, 
-  BarChart, 
   Bar, 
-  AreaChart, 
   Area, 
   XAxis, 
   YAxis, 
   CartesianGrid, 
   Tooltip, 
   Legend, 
-  ResponsiveContainer 
+  ResponsiveContainer,
+  ReferenceLine,
+  ReferenceDot
 } from 'recharts';
 import { useTheme } from '../context/ThemeContext';
-import { fetchCallAnalytics } from '../services/apiService';
-import { formatDate, formatCurrency } from '../utils/formatters';
-import { CallAnalytics } from '../types/api';
+import { useDateRange, TimeRangePreset } from '../context/DateRangeContext';
+import { useTimezone } from '../context/TimezoneContext';
+import { useFilters } from '../context/FiltersContext';
+import { useBudgets } from '../context/BudgetContext';
+import { useAnnotations } from '../context/AnnotationContext';
+import TimeZoneSelect from '../components/TimeZoneSelect';
+import AssistantSelect from '../components/AssistantSelect';
+import EndReasonSelect from '../components/EndReasonSelect';
+import AssistantBreakdownChart from '../components/AssistantBreakdownChart';
+import AssistantLeaderboard from '../components/AssistantLeaderboard';
+import EndReasonDistributionChart from '../components/EndReasonDistributionChart';
+import EndReasonTrendChart from '../components/EndReasonTrendChart';
+import ExportMenu from '../components/ExportMenu';
+import SavedViewsMenu from '../components/SavedViewsMenu';
+import BudgetAlerts from '../components/BudgetAlerts';
+import BudgetDialog from '../components/BudgetDialog';
+import AnomalyList from '../components/AnomalyList';
+import AnnotationDialog from '../components/AnnotationDialog';
+import LiveCallTicker from '../components/LiveCallTicker';
+import RefreshControl from '../components/RefreshControl';
+import ApiErrorAlert from '../components/ApiErrorAlert';
+import AccountMenu from '../components/AccountMenu';
+import WorkspaceSelect from '../components/WorkspaceSelect';
+import DateRangeDialog from '../components/DateRangeDialog';
+import SummaryCard from '../components/SummaryCard';
+import {
+  fetchCallAnalytics,
+  fetchAssistantBreakdown,
+  fetchEndReasonBreakdown,
+  fetchBudgetStatuses,
+  subscribeToNewCalls,
+  mergeCallIntoAnalytics,
+  isLiveSupported,
+  getDataSourceLabel,
+  invalidateCachedData,
+  subscribeToCachedDataUpdates,
+  AssistantBreakdown,
+  EndReasonBreakdown
+} from '../services/apiService';
+import { toApiError } from '../services/apiClient';
+import { formatDate, formatCurrency, formatBucket } from '../utils/formatters';
+import { pickGranularity, isGranularityAllowed, GRANULARITIES } from '../utils/timeBuckets';
+import { summarizeAnalytics, computeDelta, getPreviousPeriod, mergeComparisonSeries } from '../utils/metrics';
+import { getBudgetPerBucket, budgetMatchesFilter } from '../utils/budgets';
+import { withSearchParams } from '../utils/searchParams';
+import {
+  forecastDaily,
+  groupForecast,
+  appendForecast,
+  projectEndOfMonth,
+  getForecastHistoryRange,
+  getForecastEnd,
+  FORECAST_HORIZONS,
+  ForecastChartPoint,
+  MonthProjection
+} from '../utils/forecast';
+import { startOfZonedDay, startOfZonedMonth } from '../utils/timezone';
+import { detectAnomalies, getAnomalyBaselineStart } from '../utils/anomalies';
+import { getAnnotationMarkers, AnnotationMarker } from '../utils/annotations';
+import { getBucketStart } from '../utils/timeBuckets';
+import { BudgetStatus } from '../types/budget';
+import { Anomaly, AnomalyMetric, AnomalySeverity } from '../types/anomaly';
+import { ApiError, CallAnalytics, CallDetail, Granularity } from '../types/api';
+import { LiveStatus } from '../types/dataSource';
+import { uiColors } from '../styles/uiColors';
+
+const timeRangeLabels: Record<TimeRangePreset, string> = {
+  day: 'Today',
+  week: 'Last 7 Days',
+  month: 'Last 30 Days',
+  quarter: 'Last 90 Days',
+  thisMonth: 'This Month',
+  lastMonth: 'Last Month',
+  all: 'All Time'
+};
+
+// URL search param holding the picked bucket size
+const GRANULARITY_PARAM = 'granularity';
+
+// Latest calls shown in the live ticker
+const LIVE_TICKER_SIZE = 8;
+
+const granularityLabels: Record<Granularity, string> = {
+  minute: 'Minute',
+  hour: 'Hour',
+  day: 'Day',
+  week: 'Week',
+  month: 'Month'
+};
+
+type ForecastMetric = keyof MonthProjection;
+
+/**
+ * Format a chart value for the tooltip, forecast ranges arrive as [lower, upper]
+ * @param format Formats one value, rounded to the decimals by default
+ */
+const formatChartValue = (
+  value: unknown,
+  decimals: number,
+  format = (v: number) => Number(v.toFixed(decimals)).toLocaleString()
+): string => {
+  return Array.isArray(value) ? `${format(value[0])} – ${format(value[1])}` : format(Number(value));
+};
+
+/**
+ * Forecast line and shaded prediction band for one metric
+ */
+const renderForecast = (metric: ForecastMetric, color: string) => [
+  <Area
+    key={`${metric}-band`}
+    type="monotone"
+    dataKey={(point: ForecastChartPoint) => point.forecast
+      ? [point.forecast[metric].lower, point.forecast[metric].upper]
+      : undefined}
+    stroke="none"
+    fill={color}
+    fillOpacity={0.15}
+    name="Forecast Range"
+    isAnimationActive={false}
+  />,
+  <Line
+    key={`${metric}-forecast`}
+    type="monotone"
+    dataKey={(point: ForecastChartPoint) => point.forecast?.[metric].value}
+    stroke={color}
+    strokeDasharray="2 4"
+    dot={false}
+    name="Forecast"
+    strokeWidth={2}
+    isAnimationActive={false}
+  />
+];
+
+/**
+ * Vertical markers for annotations
+ */
+const renderAnnotations = (markers: AnnotationMarker[]) => markers.map(marker => (
+  <ReferenceLine
+    key={`annotation-${marker.date}`}
+    x={marker.date}
+    stroke={uiColors.subtext}
+    strokeDasharray="3 3"
+    label={{ value: marker.label, position: 'insideTopLeft', fill: uiColors.subtext, fontSize: 11 }}
+  />
+));
+
+/**
+ * Highlight buckets with anomalies in any of the given metrics, drawn at the chart's value
+ */
+const renderAnomalies = (
+  anomalies: Anomaly[],
+  metrics: AnomalyMetric[],
+  data: ForecastChartPoint[],
+  chartMetric: ForecastMetric
+) => {
+  const severities = new Map<string, AnomalySeverity>();
+  anomalies
+    .filter(anomaly => metrics.includes(anomaly.metric))
+    .forEach(anomaly => {
+      if (severities.get(anomaly.date) !== 'critical') {
+        severities.set(anomaly.date, anomaly.severity);
+      }
+    });
+
+  return [...severities.entries()].map(([date, severity]) => {
+    const point = data.find(item => new Date(item.date).getTime() === new Date(date).getTime());
+    if (!point || point[chartMetric] === undefined) {
+      return null;
+    }
+    return (
+      <ReferenceDot
+        key={`anomaly-${date}`}
+        x={point.date}
+        y={point[chartMetric]}
+        r={6}
+        fill={uiColors.anomalyColors[severity]}
+        stroke={uiColors.text}
+        strokeWidth={1.5}
+      />
+    );
+  });
+};
 
 const Dashboard: React.FC = () => {
   const { theme } = useTheme();
-  const [startDate, setStartDate] = useState<Date>(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000));
-  const [endDate, setEndDate] = useState<Date>(new Date());
-  const [timeRange, setTimeRange] = useState<string>('week');
+  const { timeRange, startDate, endDate, setTimeRange, refreshRange } = useDateRange();
+  const [isRangeDialogOpen, setIsRangeDialogOpen] = useState<boolean>(false);
+  const { timeZone } = useTimezone();
+  const { filters } = useFilters();
+  const { budgets } = useBudgets();
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([]);
+  const [isBudgetDialogOpen, setIsBudgetDialogOpen] = useState<boolean>(false);
+  const { annotations } = useAnnotations();
+  const [isAnnotationDialogOpen, setIsAnnotationDialogOpen] = useState<boolean>(false);
   const [analyticsData, setAnalyticsData] = useState<CallAnalytics[]>([]);
+  const [previousData, setPreviousData] = useState<CallAnalytics[]>([]);
+  const [baselineData, setBaselineData] = useState<CallAnalytics[]>([]);
+  const [breakdown, setBreakdown] = useState<AssistantBreakdown>({ series: {}, leaderboard: [] });
+  const [endReasons, setEndReasons] = useState<EndReasonBreakdown>({
+    series: {} as EndReasonBreakdown['series'],
+    reasons: []
+  });
+  const [showComparison, setShowComparison] = useState<boolean>(false);
+  const [showForecast, setShowForecast] = useState<boolean>(false);
+  const [forecastDays, setForecastDays] = useState<number>(FORECAST_HORIZONS[1]);
+  const [forecastHistory, setForecastHistory] = useState<CallAnalytics[]>([]);
+  const [liveEnabled, setLiveEnabled] = useState<boolean>(false);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('connecting');
+  const [liveCalls, setLiveCalls] = useState<CallDetail[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Premium UI colors
-  const uiColors = {
-    background: '#111827', // Dark blue-gray for background
-    cardBg: '#1f2937', // Slightly lighter blue-gray for cards
-    accent: '#6366f1', // Indigo accent color
-    text: '#f3f4f6', // Light gray text
-    subtext: '#9ca3af', // Medium gray for subtitles
-    border: '#374151', // Border color
-    success: '#10b981', // Green for positive indicators
-    chartColors: {
-      calls: '#818cf8', // Indigo
-      minutes: '#34d399', // Emerald green
-      cost: '#fbbf24', // Amber
-      avgDuration: '#f87171', // Rose
-    }
+  const [error, setError] = useState<ApiError | null>(null);
+  const [retryCount, setRetryCount] = useState<number>(0);
+  const [refreshCount, setRefreshCount] = useState<number>(0);
+  const [refreshInterval, setRefreshInterval] = useState<number>(0);
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [refreshFailed, setRefreshFailed] = useState<boolean>(false);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [lastFetchedAt, setLastFetchedAt] = useState<Date | null>(null);
+  const handledRefreshRef = useRef<number>(0);
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Bucket size picked in the URL, auto when it names none
+  const granularity: Granularity | 'auto' = GRANULARITIES.find(option => option === searchParams.get(GRANULARITY_PARAM)) || 'auto';
+  const setGranularity = (value: Granularity | 'auto') => {
+    setSearchParams(prevParams => withSearchParams(prevParams, { [GRANULARITY_PARAM]: value === 'auto' ? null : value }));
   };
 
+  // Use the selected bucket size unless it is too fine for the range
+  const activeGranularity: Granularity = granularity !== 'auto' && isGranularityAllowed(startDate, endDate, granularity)
+    ? granularity
+    : pickGranularity(startDate, endDate);
+
   useEffect(() => {
+    // Superseded requests are aborted so their responses can't overwrite newer data
+    const controller = new AbortController();
+
+    // Refreshes keep the current data on screen until the new data arrives
+    const isRefresh = refreshCount !== handledRefreshRef.current;
+    handledRefreshRef.current = refreshCount;
+
     const fetchData = async () => {
-      setIsLoading(true);
+      if (isRefresh) {
+        setIsRefreshing(true);
+      } else {
+        setIsLoading(true);
+      }
       setError(null);
       try {
-        // Fetch data from API
-        const data = await fetchCallAnalytics(startDate, endDate);
+        // Fetch the selected range and the equal-length period before it
+        const previousPeriod = getPreviousPeriod(startDate, endDate);
+        const options = {
+          granularity: activeGranularity,
+          timeZone,
+          assistants: filters.assistants,
+          endReasonCategories: filters.endReasonCategories,
+          signal: controller.signal
+        };
+        const [data, previous, baseline, assistantBreakdown, endReasonBreakdown] = await Promise.all([
+          fetchCallAnalytics(startDate, endDate, options),
+          fetchCallAnalytics(previousPeriod.startDate, previousPeriod.endDate, options),
+          // Anomalies in the first buckets are judged against buckets before the range
+          fetchCallAnalytics(getAnomalyBaselineStart(startDate, endDate, activeGranularity, timeZone), endDate, options),
+          fetchAssistantBreakdown(startDate, endDate, options),
+          fetchEndReasonBreakdown(startDate, endDate, options)
+        ]);
         // Don't set error for empty data, just show empty graphs
         setAnalyticsData(data);
+        setPreviousData(previous);
+        setBaselineData(baseline);
+        setBreakdown(assistantBreakdown);
+        setEndReasons(endReasonBreakdown);
+        setLastUpdated(new Date());
+        setRefreshFailed(false);
       } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
         console.error('Error fetching analytics data:', error);
-        setError('Failed to fetch data. Please check your Supabase credentials and connection.');
+        // Failed refreshes leave the older data on screen
+        setRefreshFailed(isRefresh);
+        setError(toApiError(error));
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+          setIsRefreshing(false);
+          setLastFetchedAt(new Date());
+        }
       }
     };
 
     fetchData();
-  }, [startDate, endDate]);
+    return () => controller.abort();
+  }, [startDate, endDate, activeGranularity, timeZone, filters, refreshCount, retryCount]);
+
+  const refresh = () => {
+    invalidateCachedData();
+    refreshRange();
+    setRefreshCount(count => count + 1);
+  };
+
+  const retry = () => {
+    invalidateCachedData();
+    setRetryCount(count => count + 1);
+  };
+
+  // Cached data shown instantly is refreshed in the background, fetch again when it changed
+  useEffect(() => subscribeToCachedDataUpdates(() => setRefreshCount(count => count + 1)), []);
+
+  // Auto-refresh, waiting while the tab is hidden and catching up when it is shown again
+  useEffect(() => {
+    if (!refreshInterval || !lastFetchedAt) {
+      return;
+    }
+
+    const refreshIfDue = () => {
+      if (document.visibilityState === 'visible' && Date.now() - lastFetchedAt.getTime() >= refreshInterval) {
+        invalidateCachedData();
+        refreshRange();
+        setRefreshCount(count => count + 1);
+      }
+    };
+
+    const timer = setTimeout(refreshIfDue, lastFetchedAt.getTime() + refreshInterval - Date.now());
+    document.addEventListener('visibilitychange', refreshIfDue);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', refreshIfDue);
+    };
+  }, [refreshInterval, lastFetchedAt, refreshRange]);
+
+  // Budgets follow the current day and month whatever range is shown,
+  // and are refreshed along with the charts (not for each live call)
+  useEffect(() => {
+    if (budgets.length === 0) {
+      setBudgetStatuses([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const fetchStatuses = async () => {
+      try {
+        setBudgetStatuses(await fetchBudgetStatuses(budgets, timeZone, new Date(), controller.signal));
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error fetching budget statuses:', error);
+        }
+      }
+    };
+
+    fetchStatuses();
+    return () => controller.abort();
+  }, [budgets, timeZone, lastUpdated]);
+
+  // Forecasts continue the charts from today, so the range has to reach today
+  // and the buckets have to be at least a day long
+  const today = startOfZonedDay(new Date(), timeZone);
+  const canForecast = endDate.getTime() >= today.getTime() && ['day', 'week', 'month'].includes(activeGranularity);
+  const isForecasting = showForecast && canForecast;
+
+  // The forecast is fitted on daily history whatever the chart's bucket size,
+  // refetched along with the charts but not for each live call merged into them
+  useEffect(() => {
+    if (!isForecasting) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const fetchHistory = async () => {
+      try {
+        const { startDate: historyStart, endDate: historyEnd } = getForecastHistoryRange(new Date(), timeZone);
+        setForecastHistory(await fetchCallAnalytics(historyStart, historyEnd, {
+          granularity: 'day',
+          timeZone,
+          assistants: filters.assistants,
+          endReasonCategories: filters.endReasonCategories,
+          signal: controller.signal
+        }));
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error fetching forecast history:', error);
+          setForecastHistory([]);
+        }
+      }
+    };
+
+    fetchHistory();
+    return () => controller.abort();
+  }, [isForecasting, timeZone, filters, lastUpdated]);
+
+  // New calls only belong to ranges reaching today
+  const canGoLive = isLiveSupported() && endDate.getTime() >= today.getTime();
+  const isLive = liveEnabled && canGoLive;
+
+  // Merge calls into the charts and summary cards as they come in
+  useEffect(() => {
+    if (!isLive) {
+      return;
+    }
+
+    setLiveCalls([]);
+    const unsubscribe = subscribeToNewCalls(
+      filters,
+      (call) => {
+        setLiveCalls(prevCalls => [call, ...prevCalls].slice(0, LIVE_TICKER_SIZE));
+        setAnalyticsData(prevData => mergeCallIntoAnalytics(prevData, call, activeGranularity, timeZone));
+        setBaselineData(prevData => mergeCallIntoAnalytics(prevData, call, activeGranularity, timeZone));
+      },
+      setLiveStatus
+    );
+
+    return () => unsubscribe?.();
+  }, [isLive, filters, activeGranularity, timeZone]);
 
   const handleTimeRangeChange = (event: SelectChangeEvent) => {
     const value = event.target.value;
-    setTimeRange(value);
-    
-    const now = new Date();
-    let newStartDate = new Date();
-    
-    switch (value) {
-      case 'day':
-        // Set start date to beginning of today (midnight)
-        newStartDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0);
-        // Set end date to current time today (to include all data so far today)
-        setStartDate(newStartDate);
-        setEndDate(now);
-        return; // Early return to prevent end date override
-      case 'week':
-        newStartDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case 'month':
-        newStartDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case 'quarter':
-        newStartDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        break;
-      case 'all':
-        // Set to a very old date to get all data
-        newStartDate = new Date(2000, 0, 1);
-        break;
-      default:
-        newStartDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    if (value === 'custom') {
+      setIsRangeDialogOpen(true);
+      return;
     }
-    
-    setStartDate(newStartDate);
-    setEndDate(now);
+    setTimeRange(value as TimeRangePreset);
   };
 
   // Calculate totals for summary
-  const totalCalls = analyticsData.reduce((sum, item) => sum + item.calls, 0);
-  const totalMinutes = analyticsData.reduce((sum, item) => sum + item.minutes, 0);
-  const totalCost = analyticsData.reduce((sum, item) => sum + item.cost, 0);
+  const { totalCalls, totalMinutes, totalCost, avgDuration } = summarizeAnalytics(analyticsData);
+  const previousTotals = summarizeAnalytics(previousData);
   
-  // Calculate average duration simply from total minutes divided by total calls
-  const avgDuration = totalCalls > 0 ? Number((totalMinutes / totalCalls).toFixed(2)) : 0;
-
-  // Create a better ensureChartData function
-  const ensureChartData = (data: CallAnalytics[], dateRange: string): CallAnalytics[] => {
-    if (data.length === 0 && dateRange === 'day') {
-      // Create a series of time points throughout the day at 3-hour intervals
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const timePoints: CallAnalytics[] = [];
-      // Generate points from 0:00 to 21:00 (3-hour intervals)
-      for (let hour = 0; hour <= 21; hour += 3) {
-        const timePoint = new Date(today);
-        timePoint.setHours(hour);
-        timePoints.push({
-          date: timePoint.toISOString(),
-          calls: 0,
-          minutes: 0,
-          cost: 0,
-          avgDuration: 0
-        });
-      }
-      return timePoints;
-    }
-    return data;
-  };
+  // "All Time" has no meaningful previous period
+  const showDeltas = timeRange !== 'all';
+  
+  const comparedData = mergeComparisonSeries(analyticsData, previousData);
+
+  // Forecast far enough for both the charts and the end-of-month projection
+  const forecastEnd = getForecastEnd(today, forecastDays, activeGranularity, timeZone);
+  const monthEnd = startOfZonedMonth(today, timeZone, 1);
+  const dailyForecast = isForecasting
+    ? forecastDaily(forecastHistory, today, new Date(Math.max(forecastEnd.getTime(), monthEnd.getTime())), timeZone)
+    : [];
+  const chartData: ForecastChartPoint[] = dailyForecast.length > 0
+    ? appendForecast(comparedData, groupForecast(
+        dailyForecast.filter(bucket => new Date(bucket.date).getTime() < forecastEnd.getTime()),
+        forecastHistory,
+        activeGranularity,
+        timeZone
+      ))
+    : comparedData;
+  const anomalies = detectAnomalies(baselineData, activeGranularity, {
+    timeZone,
+    from: getBucketStart(startDate, activeGranularity, timeZone)
+  });
+  const annotationMarkers = getAnnotationMarkers(annotations, chartData.map(item => item.date), activeGranularity, timeZone);
+
+  const projection = dailyForecast.length > 0
+    ? projectEndOfMonth(forecastHistory, dailyForecast, new Date(), timeZone)
+    : null;
+  
+  // Budgets drawn on the cost chart, scaled to the bucket size
+  const chartBudgets = budgets.filter(budget => budgetMatchesFilter(budget, filters));
 
   return (
     <Box sx={{ 
@@ -194,6 +536,7 @@ const Dashboard: React.FC = () => {
             color: uiColors.subtext
           }
         }}>
+          <WorkspaceSelect />
           <FormControl sx={{ minWidth: 150 }}>
             <InputLabel id="time-range-label">Time Range</InputLabel>
             <Select
@@ -203,187 +546,209 @@ const Dashboard: React.FC = () => {
               label="Time Range"
               onChange={handleTimeRangeChange}
               displayEmpty
+              renderValue={(value) => value === 'custom'
+                ? `${formatDate(startDate.toISOString(), 'medium', timeZone)} – ${formatDate(endDate.toISOString(), 'medium', timeZone)}`
+                : timeRangeLabels[value as TimeRangePreset]}
             >
-              <MenuItem value="day">Today</MenuItem>
-              <MenuItem value="week">Last 7 Days</MenuItem>
-              <MenuItem value="month">Last 30 Days</MenuItem>
-              <MenuItem value="quarter">Last 90 Days</MenuItem>
-              <MenuItem value="all">All Time</MenuItem>
+              {(Object.keys(timeRangeLabels) as TimeRangePreset[]).map(option => (
+                <MenuItem key={option} value={option}>{timeRangeLabels[option]}</MenuItem>
+              ))}
+              {/* Also handle clicks when custom is already selected, which don't fire onChange */}
+              <MenuItem value="custom" onClick={() => setIsRangeDialogOpen(true)}>Custom…</MenuItem>
             </Select>
           </FormControl>
+          <DateRangeDialog open={isRangeDialogOpen} onClose={() => setIsRangeDialogOpen(false)} />
+          <FormControl sx={{ minWidth: 130 }}>
+            <InputLabel id="granularity-label">Group By</InputLabel>
+            <Select
+              labelId="granularity-label"
+              id="granularity"
+              value={granularity}
+              label="Group By"
+              onChange={(event) => setGranularity(event.target.value as Granularity | 'auto')}
+            >
+              <MenuItem value="auto">Auto ({granularityLabels[pickGranularity(startDate, endDate)]})</MenuItem>
+              {GRANULARITIES.map(option => (
+                <MenuItem
+                  key={option}
+                  value={option}
+                  disabled={!isGranularityAllowed(startDate, endDate, option)}
+                >
+                  {granularityLabels[option]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <AssistantSelect />
+          <EndReasonSelect />
+          <TimeZoneSelect />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={showComparison}
+                onChange={(event) => setShowComparison(event.target.checked)}
+                disabled={!showDeltas}
+              />
+            }
+            label="Compare"
+            sx={{ color: uiColors.subtext, mr: 0 }}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={isLive}
+                onChange={(event) => setLiveEnabled(event.target.checked)}
+                disabled={!canGoLive}
+              />
+            }
+            label="Live"
+            sx={{ color: uiColors.subtext, mr: 0 }}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={isForecasting}
+                onChange={(event) => setShowForecast(event.target.checked)}
+                disabled={!canForecast}
+              />
+            }
+            label="Forecast"
+            sx={{ color: uiColors.subtext, mr: 0 }}
+          />
+          {isForecasting && (
+            <FormControl sx={{ minWidth: 110 }}>
+              <InputLabel id="forecast-days-label">Horizon</InputLabel>
+              <Select
+                labelId="forecast-days-label"
+                id="forecast-days"
+                value={String(forecastDays)}
+                label="Horizon"
+                onChange={(event) => setForecastDays(Number(event.target.value))}
+              >
+                {FORECAST_HORIZONS.map(days => (
+                  <MenuItem key={days} value={String(days)}>{days} days</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+          <RefreshControl
+            lastUpdated={lastUpdated}
+            isRefreshing={isRefreshing}
+            refreshFailed={refreshFailed}
+            interval={refreshInterval}
+            onIntervalChange={setRefreshInterval}
+            onRefresh={refresh}
+          />
+          <SavedViewsMenu />
+          <ExportMenu analytics={analyticsData} granularity={activeGranularity} />
+          <Button
+            onClick={() => setIsAnnotationDialogOpen(true)}
+            variant="outlined"
+            sx={{
+              color: uiColors.text,
+              borderColor: 'rgba(255,255,255,0.1)',
+              borderRadius: '8px',
+              textTransform: 'none',
+              height: 56
+            }}
+          >
+            Annotations{annotations.length > 0 ? ` (${annotations.length})` : ''}
+          </Button>
+          <Button
+            component={RouterLink}
+            to={{ pathname: '/report', search: location.search }}
+            variant="outlined"
+            sx={{
+              color: uiColors.text,
+              borderColor: 'rgba(255,255,255,0.1)',
+              borderRadius: '8px',
+              textTransform: 'none',
+              height: 56
+            }}
+          >
+            Report
+          </Button>
+          <Button
+            component={RouterLink}
+            to={{ pathname: '/calls', search: location.search }}
+            variant="outlined"
+            sx={{
+              color: uiColors.text,
+              borderColor: 'rgba(255,255,255,0.1)',
+              borderRadius: '8px',
+              textTransform: 'none',
+              height: 56
+            }}
+          >
+            View Calls
+          </Button>
+          <AccountMenu />
         </Box>
       </Box>
 
-      {error && (
-        <Card 
-          elevation={0} 
-          sx={{ 
-            mb: 4,
-            bgcolor: 'rgba(239, 68, 68, 0.1)',
-            border: '1px solid rgba(239, 68, 68, 0.3)',
-            borderRadius: '8px',
-            overflow: 'hidden'
-          }}
-        >
-          <CardContent sx={{ p: 2 }}>
-            <Typography sx={{ color: '#ef4444' }}>{error}</Typography>
-          </CardContent>
-        </Card>
-      )}
+      {error && <ApiErrorAlert error={error} onRetry={retry} />}
+
+      {isLive && <LiveCallTicker status={liveStatus} calls={liveCalls} timeZone={timeZone} />}
+
+      <BudgetAlerts statuses={budgetStatuses} timeZone={timeZone} />
+      <BudgetDialog
+        open={isBudgetDialogOpen}
+        onClose={() => setIsBudgetDialogOpen(false)}
+        assistants={breakdown.leaderboard.map(stats => stats.assistant).filter(Boolean)}
+        statuses={budgetStatuses}
+        timeZone={timeZone}
+      />
+      <AnnotationDialog
+        open={isAnnotationDialogOpen}
+        onClose={() => setIsAnnotationDialogOpen(false)}
+        timeZone={timeZone}
+      />
 
       {/* Summary Cards */}
       <Grid container spacing={3} sx={{ mb: 4 }}>
         <Grid item xs={12} sm={6} md={3}>
-          <Card 
-            elevation={0} 
-            sx={{ 
-              bgcolor: uiColors.cardBg,
-              borderRadius: '12px',
-              border: `1px solid ${uiColors.border}`,
-              height: '100%'
-            }}
-          >
-            <CardContent sx={{ p: 3, textAlign: 'center' }}>
-              <Typography 
-                variant="subtitle1" 
-                gutterBottom 
-                sx={{ 
-                  color: uiColors.subtext,
-                  fontWeight: 500,
-                  fontSize: '0.875rem'
-                }}
-              >
-                Total Calls
-              </Typography>
-              {isLoading ? (
-                <CircularProgress size={24} sx={{ color: uiColors.chartColors.calls }} />
-              ) : (
-                <Typography 
-                  variant="h4" 
-                  sx={{ 
-                    fontWeight: 700,
-                    letterSpacing: '-0.025em'
-                  }}
-                >
-                  {totalCalls}
-                </Typography>
-              )}
-            </CardContent>
-          </Card>
+          <SummaryCard
+            title="Total Calls"
+            value={String(totalCalls)}
+            color={uiColors.chartColors.calls}
+            isLoading={isLoading}
+            delta={showDeltas ? computeDelta(totalCalls, previousTotals.totalCalls) : undefined}
+            projection={projection ? Math.round(projection.calls).toLocaleString() : undefined}
+          />
         </Grid>
         <Grid item xs={12} sm={6} md={3}>
-          <Card 
-            elevation={0} 
-            sx={{ 
-              bgcolor: uiColors.cardBg,
-              borderRadius: '12px',
-              border: `1px solid ${uiColors.border}`,
-              height: '100%'
-            }}
-          >
-            <CardContent sx={{ p: 3, textAlign: 'center' }}>
-              <Typography 
-                variant="subtitle1" 
-                gutterBottom 
-                sx={{ 
-                  color: uiColors.subtext,
-                  fontWeight: 500,
-                  fontSize: '0.875rem'
-                }}
-              >
-                Total Minutes
-              </Typography>
-              {isLoading ? (
-                <CircularProgress size={24} sx={{ color: uiColors.chartColors.minutes }} />
-              ) : (
-                <Typography 
-                  variant="h4" 
-                  sx={{ 
-                    fontWeight: 700,
-                    letterSpacing: '-0.025em'
-                  }}
-                >
-                  {totalMinutes.toFixed(1)}
-                </Typography>
-              )}
-            </CardContent>
-          </Card>
+          <SummaryCard
+            title="Total Minutes"
+            value={totalMinutes.toFixed(1)}
+            color={uiColors.chartColors.minutes}
+            isLoading={isLoading}
+            delta={showDeltas ? computeDelta(totalMinutes, previousTotals.totalMinutes) : undefined}
+            formatValue={(value) => value.toFixed(1)}
+            projection={projection ? projection.minutes.toFixed(1) : undefined}
+          />
         </Grid>
         <Grid item xs={12} sm={6} md={3}>
-          <Card 
-            elevation={0} 
-            sx={{ 
-              bgcolor: uiColors.cardBg,
-              borderRadius: '12px',
-              border: `1px solid ${uiColors.border}`,
-              height: '100%'
-            }}
-          >
-            <CardContent sx={{ p: 3, textAlign: 'center' }}>
-              <Typography 
-                variant="subtitle1" 
-                gutterBottom 
-                sx={{ 
-                  color: uiColors.subtext,
-                  fontWeight: 500,
-                  fontSize: '0.875rem'
-                }}
-              >
-                Total Cost
-              </Typography>
-              {isLoading ? (
-                <CircularProgress size={24} sx={{ color: uiColors.chartColors.cost }} />
-              ) : (
-                <Typography 
-                  variant="h4" 
-                  sx={{ 
-                    fontWeight: 700,
-                    letterSpacing: '-0.025em'
-                  }}
-                >
-                  {formatCurrency(totalCost)}
-                </Typography>
-              )}
-            </CardContent>
-          </Card>
+          <SummaryCard
+            title="Total Cost"
+            value={formatCurrency(totalCost)}
+            color={uiColors.chartColors.cost}
+            isLoading={isLoading}
+            delta={showDeltas ? computeDelta(totalCost, previousTotals.totalCost) : undefined}
+            formatValue={(value) => formatCurrency(value)}
+            higherIsBetter={false}
+            projection={projection ? formatCurrency(projection.cost) : undefined}
+          />
         </Grid>
         <Grid item xs={12} sm={6} md={3}>
-          <Card 
-            elevation={0} 
-            sx={{ 
-              bgcolor: uiColors.cardBg,
-              borderRadius: '12px',
-              border: `1px solid ${uiColors.border}`,
-              height: '100%'
-            }}
-          >
-            <CardContent sx={{ p: 3, textAlign: 'center' }}>
-              <Typography 
-                variant="subtitle1" 
-                gutterBottom 
-                sx={{ 
-                  color: uiColors.subtext,
-                  fontWeight: 500,
-                  fontSize: '0.875rem'
-                }}
-              >
-                Avg Duration
-              </Typography>
-              {isLoading ? (
-                <CircularProgress size={24} sx={{ color: uiColors.chartColors.avgDuration }} />
-              ) : (
-                <Typography 
-                  variant="h4" 
-                  sx={{ 
-                    fontWeight: 700,
-                    letterSpacing: '-0.025em'
-                  }}
-                >
-                  {avgDuration.toFixed(2)} min
-                </Typography>
-              )}
-            </CardContent>
-          </Card>
+          <SummaryCard
+            title="Avg Duration"
+            value={`${avgDuration.toFixed(2)} min`}
+            color={uiColors.chartColors.avgDuration}
+            isLoading={isLoading}
+            delta={showDeltas ? computeDelta(avgDuration, previousTotals.avgDuration) : undefined}
+            formatValue={(value) => `${value.toFixed(2)} min`}
+            projection={projection ? `${projection.avgDuration.toFixed(2)} min` : undefined}
+          />
         </Grid>
       </Grid>
 
@@ -418,8 +783,8 @@ const Dashboard: React.FC = () => {
                 </Box>
               ) : (
                 <ResponsiveContainer width="100%" height={300}>
-                  <LineChart
-                    data={ensureChartData(analyticsData, timeRange)}
+                  <ComposedChart
+                    data={chartData}
                     margin={{
                       top: 5,
                       right: 30,
@@ -431,24 +796,12 @@ const Dashboard: React.FC = () => {
                     <XAxis 
                       dataKey="date" 
                       tick={{ fill: uiColors.text }}
-                      tickFormatter={(date) => {
-                        const dateObj = new Date(date);
-                        if (timeRange === 'day') {
-                          // Enhanced formatting for Today view with AM/PM
-                          return dateObj.toLocaleTimeString([], { hour: 'numeric', hour12: true }).toUpperCase();
-                        } else if (timeRange === 'week' || timeRange === 'month') {
-                          // Format as day of week or day of month
-                          return dateObj.toLocaleDateString([], { weekday: 'short' });
-                        } else {
-                          // Format as month/day for Year view
-                          return dateObj.toLocaleDateString([], { month: 'short', day: 'numeric' });
-                        }
-                      }}
+                      tickFormatter={(date) => formatBucket(date, activeGranularity, 'tick', timeZone)}
                       style={{ fontSize: '12px' }}
                     />
                     <YAxis 
                       tick={{ fill: uiColors.text }} 
-                      domain={[0, analyticsData.length > 0 ? 'auto' : 5]}
+                      domain={[0, totalCalls > 0 ? 'auto' : 5]}
                       allowDecimals={false}
                       style={{ fontSize: '12px' }}
                     />
@@ -459,13 +812,22 @@ const Dashboard: React.FC = () => {
                         borderRadius: '6px',
                         color: uiColors.text
                       }}
-                      formatter={(value) => [`${value} calls`, 'Calls']}
-                      labelFormatter={(date) => {
-                        const dateObj = new Date(date);
-                        return dateObj.toLocaleString();
-                      }}
+                      formatter={(value, name) => [`${formatChartValue(value, 0)} calls`, name]}
+                      labelFormatter={(date) => formatBucket(date, activeGranularity, 'tooltip', timeZone)}
                     />
                     <Legend />
+                    {showComparison && (
+                      <Line
+                        type="monotone"
+                        dataKey="previous.calls"
+                        stroke={uiColors.chartColors.calls}
+                        strokeDasharray="5 5"
+                        strokeOpacity={0.6}
+                        dot={false}
+                        name="Previous Period"
+                        strokeWidth={2}
+                      />
+                    )}
                     <Line
                       type="monotone"
                       dataKey="calls"
@@ -474,7 +836,10 @@ const Dashboard: React.FC = () => {
                       name="Calls"
                       strokeWidth={2}
                     />
-                  </LineChart>
+                    {isForecasting && renderForecast('calls', uiColors.chartColors.calls)}
+                    {renderAnomalies(anomalies, ['calls'], chartData, 'calls')}
+                    {renderAnnotations(annotationMarkers)}
+                  </ComposedChart>
                 </ResponsiveContainer>
               )}
             </CardContent>
@@ -493,25 +858,32 @@ const Dashboard: React.FC = () => {
             }}
           >
             <CardContent sx={{ p: 3 }}>
-              <Typography 
-                variant="h6" 
-                gutterBottom
-                sx={{ 
-                  fontWeight: 600,
-                  fontSize: '1.125rem',
-                  mb: 2
-                }}
-              >
-                Cost
-              </Typography>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography 
+                  variant="h6" 
+                  sx={{ 
+                    fontWeight: 600,
+                    fontSize: '1.125rem'
+                  }}
+                >
+                  Cost
+                </Typography>
+                <Button
+                  size="small"
+                  onClick={() => setIsBudgetDialogOpen(true)}
+                  sx={{ color: uiColors.subtext, textTransform: 'none' }}
+                >
+                  Budgets{budgets.length > 0 ? ` (${budgets.length})` : ''}
+                </Button>
+              </Box>
               {isLoading ? (
                 <Box sx={{ display: 'flex', justifyContent: 'center', p: 5 }}>
                   <CircularProgress sx={{ color: uiColors.chartColors.cost }} />
                 </Box>
               ) : (
                 <ResponsiveContainer width="100%" height={300}>
-                  <BarChart
-                    data={ensureChartData(analyticsData, timeRange)}
+                  <ComposedChart
+                    data={chartData}
                     margin={{
                       top: 5,
                       right: 30,
@@ -523,24 +895,12 @@ const Dashboard: React.FC = () => {
                     <XAxis 
                       dataKey="date" 
                       tick={{ fill: uiColors.text }}
-                      tickFormatter={(date) => {
-                        const dateObj = new Date(date);
-                        if (timeRange === 'day') {
-                          // Enhanced formatting for Today view with AM/PM
-                          return dateObj.toLocaleTimeString([], { hour: 'numeric', hour12: true }).toUpperCase();
-                        } else if (timeRange === 'week' || timeRange === 'month') {
-                          // Format as day of week or day of month
-                          return dateObj.toLocaleDateString([], { weekday: 'short' });
-                        } else {
-                          // Format as month/day for Year view
-                          return dateObj.toLocaleDateString([], { month: 'short', day: 'numeric' });
-                        }
-                      }}
+                      tickFormatter={(date) => formatBucket(date, activeGranularity, 'tick', timeZone)}
                       style={{ fontSize: '12px' }}
                     />
                     <YAxis 
                       tick={{ fill: uiColors.text }} 
-                      domain={[0, analyticsData.length > 0 ? 'auto' : 5]}
+                      domain={[0, totalCalls > 0 ? 'auto' : 5]}
                       allowDecimals={false}
                       style={{ fontSize: '12px' }}
                     />
@@ -551,20 +911,47 @@ const Dashboard: React.FC = () => {
                         borderRadius: '6px',
                         color: uiColors.text
                       }}
-                      formatter={(value) => [`$${value}`, 'Cost']}
-                      labelFormatter={(date) => {
-                        const dateObj = new Date(date);
-                        return dateObj.toLocaleString();
-                      }}
+                      formatter={(value, name) => [formatChartValue(value, 2, (v) => formatCurrency(v)), name]}
+                      labelFormatter={(date) => formatBucket(date, activeGranularity, 'tooltip', timeZone)}
                     />
                     <Legend />
+                    {showComparison && (
+                      <Line
+                        type="monotone"
+                        dataKey="previous.cost"
+                        stroke={uiColors.chartColors.cost}
+                        strokeDasharray="5 5"
+                        strokeOpacity={0.6}
+                        dot={false}
+                        name="Previous Period"
+                        strokeWidth={2}
+                      />
+                    )}
                     <Bar 
                       dataKey="cost" 
                       fill={uiColors.chartColors.cost} 
                       name="Cost" 
                       radius={[4, 4, 0, 0]}
                     />
-                  </BarChart>
+                    {isForecasting && renderForecast('cost', uiColors.chartColors.cost)}
+                    {renderAnomalies(anomalies, ['cost', 'costPerCall'], chartData, 'cost')}
+                    {renderAnnotations(annotationMarkers)}
+                    {chartBudgets.map(budget => (
+                      <ReferenceLine
+                        key={budget.id}
+                        y={getBudgetPerBucket(budget, activeGranularity)}
+                        stroke="#ef4444"
+                        strokeDasharray="4 4"
+                        ifOverflow="extendDomain"
+                        label={{
+                          value: `${budget.period === 'month' ? 'Monthly' : 'Daily'} budget (${formatCurrency(getBudgetPerBucket(budget, activeGranularity))}/${activeGranularity})`,
+                          position: 'insideTopRight',
+                          fill: '#ef4444',
+                          fontSize: 11
+                        }}
+                      />
+                    ))}
+                  </ComposedChart>
                 </ResponsiveContainer>
               )}
             </CardContent>
@@ -600,8 +987,8 @@ const Dashboard: React.FC = () => {
                 </Box>
               ) : (
                 <ResponsiveContainer width="100%" height={300}>
-                  <AreaChart
-                    data={ensureChartData(analyticsData, timeRange)}
+                  <ComposedChart
+                    data={chartData}
                     margin={{
                       top: 5,
                       right: 30,
@@ -613,24 +1000,12 @@ const Dashboard: React.FC = () => {
                     <XAxis 
                       dataKey="date" 
                       tick={{ fill: uiColors.text }}
-                      tickFormatter={(date) => {
-                        const dateObj = new Date(date);
-                        if (timeRange === 'day') {
-                          // Enhanced formatting for Today view with AM/PM
-                          return dateObj.toLocaleTimeString([], { hour: 'numeric', hour12: true }).toUpperCase();
-                        } else if (timeRange === 'week' || timeRange === 'month') {
-                          // Format as day of week or day of month
-                          return dateObj.toLocaleDateString([], { weekday: 'short' });
-                        } else {
-                          // Format as month/day for Year view
-                          return dateObj.toLocaleDateString([], { month: 'short', day: 'numeric' });
-                        }
-                      }}
+                      tickFormatter={(date) => formatBucket(date, activeGranularity, 'tick', timeZone)}
                       style={{ fontSize: '12px' }}
                     />
                     <YAxis 
                       tick={{ fill: uiColors.text }} 
-                      domain={[0, analyticsData.length > 0 ? 'auto' : 5]}
+                      domain={[0, totalCalls > 0 ? 'auto' : 5]}
                       style={{ fontSize: '12px' }}
                     />
                     <Tooltip
@@ -640,13 +1015,22 @@ const Dashboard: React.FC = () => {
                         borderRadius: '6px',
                         color: uiColors.text
                       }}
-                      formatter={(value) => [`${value} min`, 'Minutes']}
-                      labelFormatter={(date) => {
-                        const dateObj = new Date(date);
-                        return dateObj.toLocaleString();
-                      }}
+                      formatter={(value, name) => [`${formatChartValue(value, 1)} min`, name]}
+                      labelFormatter={(date) => formatBucket(date, activeGranularity, 'tooltip', timeZone)}
                     />
                     <Legend />
+                    {showComparison && (
+                      <Line
+                        type="monotone"
+                        dataKey="previous.minutes"
+                        stroke={uiColors.chartColors.minutes}
+                        strokeDasharray="5 5"
+                        strokeOpacity={0.6}
+                        dot={false}
+                        name="Previous Period"
+                        strokeWidth={2}
+                      />
+                    )}
                     <Area
                       type="monotone"
                       dataKey="minutes"
@@ -655,13 +1039,16 @@ const Dashboard: React.FC = () => {
                       name="Minutes"
                       strokeWidth={2}
                     />
+                    {isForecasting && renderForecast('minutes', uiColors.chartColors.minutes)}
+                    {renderAnomalies(anomalies, ['minutes'], chartData, 'minutes')}
+                    {renderAnnotations(annotationMarkers)}
                     <defs>
                       <linearGradient id="colorMinutes" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="5%" stopColor={uiColors.chartColors.minutes} stopOpacity={0.8}/>
                         <stop offset="95%" stopColor={uiColors.chartColors.minutes} stopOpacity={0.1}/>
                       </linearGradient>
                     </defs>
-                  </AreaChart>
+                  </ComposedChart>
                 </ResponsiveContainer>
               )}
             </CardContent>
@@ -697,8 +1084,8 @@ const Dashboard: React.FC = () => {
                 </Box>
               ) : (
                 <ResponsiveContainer width="100%" height={300}>
-                  <AreaChart
-                    data={ensureChartData(analyticsData, timeRange)}
+                  <ComposedChart
+                    data={chartData}
                     margin={{
                       top: 5,
                       right: 30,
@@ -710,24 +1097,12 @@ const Dashboard: React.FC = () => {
                     <XAxis 
                       dataKey="date" 
                       tick={{ fill: uiColors.text }}
-                      tickFormatter={(date) => {
-                        const dateObj = new Date(date);
-                        if (timeRange === 'day') {
-                          // Enhanced formatting for Today view with AM/PM
-                          return dateObj.toLocaleTimeString([], { hour: 'numeric', hour12: true }).toUpperCase();
-                        } else if (timeRange === 'week' || timeRange === 'month') {
-                          // Format as day of week or day of month
-                          return dateObj.toLocaleDateString([], { weekday: 'short' });
-                        } else {
-                          // Format as month/day for Year view
-                          return dateObj.toLocaleDateString([], { month: 'short', day: 'numeric' });
-                        }
-                      }}
+                      tickFormatter={(date) => formatBucket(date, activeGranularity, 'tick', timeZone)}
                       style={{ fontSize: '12px' }}
                     />
                     <YAxis 
                       tick={{ fill: uiColors.text }} 
-                      domain={[0, analyticsData.length > 0 ? 'auto' : 5]}
+                      domain={[0, totalCalls > 0 ? 'auto' : 5]}
                       style={{ fontSize: '12px' }}
                     />
                     <Tooltip
@@ -737,13 +1112,22 @@ const Dashboard: React.FC = () => {
                         borderRadius: '6px',
                         color: uiColors.text
                       }}
-                      formatter={(value) => [`${value} min/call`, 'Avg Duration']}
-                      labelFormatter={(date) => {
-                        const dateObj = new Date(date);
-                        return dateObj.toLocaleString();
-                      }}
+                      formatter={(value, name) => [`${formatChartValue(value, 2)} min/call`, name]}
+                      labelFormatter={(date) => formatBucket(date, activeGranularity, 'tooltip', timeZone)}
                     />
                     <Legend />
+                    {showComparison && (
+                      <Line
+                        type="monotone"
+                        dataKey="previous.avgDuration"
+                        stroke={uiColors.chartColors.avgDuration}
+                        strokeDasharray="5 5"
+                        strokeOpacity={0.6}
+                        dot={false}
+                        name="Previous Period"
+                        strokeWidth={2}
+                      />
+                    )}
                     <Area
                       type="monotone"
                       dataKey="avgDuration"
@@ -752,24 +1136,66 @@ const Dashboard: React.FC = () => {
                       name="Avg Duration"
                       strokeWidth={2}
                     />
+                    {isForecasting && renderForecast('avgDuration', uiColors.chartColors.avgDuration)}
+                    {renderAnomalies(anomalies, ['avgDuration'], chartData, 'avgDuration')}
+                    {renderAnnotations(annotationMarkers)}
                     <defs>
                       <linearGradient id="colorAvgDuration" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="5%" stopColor={uiColors.chartColors.avgDuration} stopOpacity={0.8}/>
                         <stop offset="95%" stopColor={uiColors.chartColors.avgDuration} stopOpacity={0.1}/>
                       </linearGradient>
                     </defs>
-                  </AreaChart>
+                  </ComposedChart>
                 </ResponsiveContainer>
               )}
             </CardContent>
           </Card>
         </Grid>
+
+        {/* Anomalies */}
+        <Grid item xs={12}>
+          <AnomalyList
+            anomalies={anomalies}
+            granularity={activeGranularity}
+            timeZone={timeZone}
+            isLoading={isLoading}
+          />
+        </Grid>
+
+        {/* Per-Assistant Breakdown */}
+        <Grid item xs={12} md={6}>
+          <AssistantBreakdownChart
+            series={breakdown.series}
+            assistants={breakdown.leaderboard.map(stats => stats.assistant)}
+            granularity={activeGranularity}
+            timeZone={timeZone}
+            annotations={annotations}
+            isLoading={isLoading}
+          />
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <AssistantLeaderboard stats={breakdown.leaderboard} isLoading={isLoading} />
+        </Grid>
+
+        {/* End Reasons */}
+        <Grid item xs={12} md={4}>
+          <EndReasonDistributionChart reasons={endReasons.reasons} isLoading={isLoading} />
+        </Grid>
+        <Grid item xs={12} md={8}>
+          <EndReasonTrendChart
+            series={endReasons.series}
+            granularity={activeGranularity}
+            timeZone={timeZone}
+            annotations={annotations}
+            isLoading={isLoading}
+          />
+        </Grid>
       </Grid>
 
       {/* API Data Indicator */}
       <Box sx={{ mt: 4, textAlign: 'center' }}>
         <Typography variant="body2" sx={{ color: uiColors.subtext }}>
-          Displaying data from Supabase database
+          Displaying data from {getDataSourceLabel()}
         </Typography>
       </Box>
     </Box>
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Alert, Box, Button, Card, CardContent, CircularProgress, TextField, Typography } from '@mui/material';
+import { Location, Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { toApiError } from '../services/apiClient';
+import { uiColors } from '../styles/uiColors';
+
+const fieldSx = {
+  '& .MuiInputBase-root': { color: uiColors.text },
+  '& .MuiInputLabel-root': { color: uiColors.subtext },
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255,255,255,0.1)' }
+};
+
+type LoginMode = 'password' | 'magicLink';
+
+/**
+ * Sign-in page, with email and password or a magic link sent by email
+ */
+const Login: React.FC = () => {
+  const { isAuthEnabled, session, signInWithPassword, sendMagicLink } = useAuth();
+  const location = useLocation();
+  const [mode, setMode] = useState<LoginMode>('password');
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  // Page that asked for sign-in, with its range and filters
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}` : '/';
+
+  // Go back to the page that asked for sign-in
+  if (session || !isAuthEnabled) {
+    return <Navigate to={returnTo} replace />;
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (mode === 'password') {
+        await signInWithPassword(email, password);
+      } else {
+        await sendMagicLink(email, returnTo);
+        setLinkSentTo(email);
+      }
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError(toApiError(error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = (value: LoginMode) => {
+    setMode(value);
+    setError(null);
+    setLinkSentTo(null);
+  };
+
+  return (
+    <Box sx={{
+      bgcolor: uiColors.background,
+      minHeight: '100vh',
+      p: 3,
+      color: uiColors.text,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center'
+    }}>
+      <Card
+        elevation={0}
+        sx={{
+          width: '100%',
+          maxWidth: 400,
+          bgcolor: uiColors.cardBg,
+          color: uiColors.text,
+          border: `1px solid ${uiColors.border}`,
+          borderRadius: '12px'
+        }}
+      >
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h5" component="h1" sx={{ fontWeight: 600, letterSpacing: '-0.025em' }}>
+            Sign in
+          </Typography>
+          <Typography variant="body2" sx={{ color: uiColors.subtext, mt: 0.5, mb: 3 }}>
+            {mode === 'password' ? 'Use your email and password' : 'We will email you a link to sign in'}
+          </Typography>
+
+          {error && (
+            <Alert severity="error" variant="outlined" sx={{ mb: 2, borderRadius: '8px' }}>
+              {error}
+            </Alert>
+          )}
+          {linkSentTo && (
+            <Alert severity="success" variant="outlined" sx={{ mb: 2, borderRadius: '8px' }}>
+              Check {linkSentTo} for a sign-in link.
+            </Alert>
+          )}
+
+          <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <TextField
+              label="Email"
+              type="email"
+              autoComplete="email"
+              required
+              autoFocus
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              sx={fieldSx}
+            />
+            {mode === 'password' && (
+              <TextField
+                label="Password"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                sx={fieldSx}
+              />
+            )}
+            <Button
+              type="submit"
+              variant="contained"
+              disabled={isSubmitting}
+              startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+              sx={{ bgcolor: uiColors.accent, borderRadius: '8px', textTransform: 'none', height: 44 }}
+            >
+              {mode === 'password' ? 'Sign in' : 'Send magic link'}
+            </Button>
+          </Box>
+
+          <Button
+            fullWidth
+            onClick={() => switchMode(mode === 'password' ? 'magicLink' : 'password')}
+            sx={{ mt: 1, color: uiColors.subtext, textTransform: 'none' }}
+          >
+            {mode === 'password' ? 'Email me a sign-in link instead' : 'Sign in with a password instead'}
+          </Button>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default Login;
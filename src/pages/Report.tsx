@@ -0,0 +1,479 @@
+import React, { useState, useEffect, useRef, ReactNode } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  GlobalStyles,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import PrintIcon from '@mui/icons-material/Print';
+import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
+import { Link as RouterLink, useLocation } from 'react-router-dom';
+import { ComposedChart, Line, Bar, Area, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { useDateRange } from '../context/DateRangeContext';
+import { useTimezone } from '../context/TimezoneContext';
+import { useFilters } from '../context/FiltersContext';
+import { fetchCallAnalytics, fetchCallDetails, getDataSourceLabel, invalidateCachedData } from '../services/apiService';
+import { toApiError } from '../services/apiClient';
+import ApiErrorAlert from '../components/ApiErrorAlert';
+import { formatDate, formatDateTime, formatCurrency, formatDuration, formatBucket } from '../utils/formatters';
+import { summarizeAnalytics, computeDelta, getPreviousPeriod, MetricDelta } from '../utils/metrics';
+import { pickGranularity } from '../utils/timeBuckets';
+import { formatEndReason, endReasonCategoryLabels } from '../utils/endReasons';
+import { downloadPagesAsPdf } from '../utils/pdf';
+import { ApiError, CallAnalytics, CallDetail, Granularity } from '../types/api';
+import { reportColors } from '../styles/uiColors';
+
+// A4 at 96 DPI, so the screen layout matches the printed page
+const PAGE_WIDTH_PX = 794;
+const PAGE_HEIGHT_PX = 1123;
+
+// Width of the charts drawn on a page, inside its margins
+const CHART_WIDTH_PX = PAGE_WIDTH_PX - 2 * 56;
+
+const TOP_CALL_OPTIONS = [5, 10, 25];
+
+const cellSx = {
+  color: reportColors.text,
+  borderColor: reportColors.border,
+  fontSize: '0.75rem',
+  py: 0.75
+};
+
+interface ReportPageProps {
+  pageNumber: number;
+  pageCount: number;
+  generatedAt: string;
+  timeZone: string;
+  children: ReactNode;
+}
+
+/**
+ * One A4 page of the report with a page footer
+ */
+const ReportPage = React.forwardRef<HTMLDivElement, ReportPageProps>(
+  ({ pageNumber, pageCount, generatedAt, timeZone, children }, ref) => (
+    <Box
+      ref={ref}
+      sx={{
+        width: PAGE_WIDTH_PX,
+        height: PAGE_HEIGHT_PX,
+        bgcolor: reportColors.background,
+        color: reportColors.text,
+        p: 7,
+        mx: 'auto',
+        mb: 3,
+        boxShadow: '0 1px 4px rgba(0,0,0,0.15)',
+        display: 'flex',
+        flexDirection: 'column',
+        boxSizing: 'border-box',
+        '@media print': {
+          mb: 0,
+          boxShadow: 'none',
+          breakAfter: 'page'
+        }
+      }}
+    >
+      <Box sx={{ flexGrow: 1 }}>{children}</Box>
+      <Box sx={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        borderTop: `1px solid ${reportColors.border}`,
+        pt: 1
+      }}>
+        <Typography variant="caption" sx={{ color: reportColors.subtext }}>
+          Generated {formatDateTime(generatedAt, timeZone)}
+        </Typography>
+        <Typography variant="caption" sx={{ color: reportColors.subtext }}>
+          Page {pageNumber} of {pageCount}
+        </Typography>
+      </Box>
+    </Box>
+  )
+);
+
+interface ReportMetricProps {
+  title: string;
+  value: string;
+  delta?: MetricDelta;
+}
+
+/**
+ * Summary metric with its change against the previous period
+ */
+const ReportMetric: React.FC<ReportMetricProps> = ({ title, value, delta }) => (
+  <Box sx={{ border: `1px solid ${reportColors.border}`, borderRadius: '8px', p: 2 }}>
+    <Typography variant="body2" sx={{ color: reportColors.subtext }}>{title}</Typography>
+    <Typography variant="h5" sx={{ fontWeight: 600, mt: 0.5 }}>{value}</Typography>
+    {delta && delta.percentChange !== null && (
+      <Typography variant="caption" sx={{ color: reportColors.subtext }}>
+        {delta.percentChange >= 0 ? '+' : ''}{delta.percentChange.toFixed(1)}% vs previous period
+      </Typography>
+    )}
+  </Box>
+);
+
+interface ReportChartProps {
+  title: string;
+  data: CallAnalytics[];
+  metric: 'calls' | 'minutes' | 'cost' | 'avgDuration';
+  type: 'line' | 'bar' | 'area';
+  granularity: Granularity;
+  timeZone: string;
+}
+
+/**
+ * Fixed-size chart of one metric, drawn without animation so it can be captured
+ */
+const ReportChart: React.FC<ReportChartProps> = ({ title, data, metric, type, granularity, timeZone }) => {
+  const color = reportColors.chartColors[metric];
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>{title}</Typography>
+      <ComposedChart width={CHART_WIDTH_PX} height={260} data={data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke={reportColors.border} />
+        <XAxis
+          dataKey="date"
+          tick={{ fill: reportColors.subtext }}
+          tickFormatter={(date) => formatBucket(date, granularity, 'tick', timeZone)}
+          style={{ fontSize: '11px' }}
+        />
+        <YAxis
+          tick={{ fill: reportColors.subtext }}
+          allowDecimals={metric !== 'calls'}
+          tickFormatter={(value) => metric === 'cost' ? formatCurrency(value, 0) : String(value)}
+          style={{ fontSize: '11px' }}
+        />
+        {type === 'line' && (
+          <Line type="monotone" dataKey={metric} stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+        )}
+        {type === 'bar' && (
+          <Bar dataKey={metric} fill={color} radius={[3, 3, 0, 0]} isAnimationActive={false} />
+        )}
+        {type === 'area' && (
+          <Area
+            type="monotone"
+            dataKey={metric}
+            stroke={color}
+            fill={color}
+            fillOpacity={0.2}
+            strokeWidth={2}
+            isAnimationActive={false}
+          />
+        )}
+      </ComposedChart>
+    </Box>
+  );
+};
+
+/**
+ * Print-friendly usage report for the selected range, downloadable as a PDF
+ */
+const Report: React.FC = () => {
+  const { startDate, endDate } = useDateRange();
+  const location = useLocation();
+  const { timeZone } = useTimezone();
+  const { filters } = useFilters();
+  const [analyticsData, setAnalyticsData] = useState<CallAnalytics[]>([]);
+  const [previousData, setPreviousData] = useState<CallAnalytics[]>([]);
+  const [topCalls, setTopCalls] = useState<CallDetail[]>([]);
+  const [topCount, setTopCount] = useState<number>(10);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [retryCount, setRetryCount] = useState<number>(0);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+  const [generatedAt, setGeneratedAt] = useState<string>(() => new Date().toISOString());
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const granularity = pickGranularity(startDate, endDate);
+
+  useEffect(() => {
+    // Superseded requests are aborted so their responses can't overwrite newer data
+    const controller = new AbortController();
+
+    const fetchData = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const previousPeriod = getPreviousPeriod(startDate, endDate);
+        const options = {
+          granularity,
+          timeZone,
+          assistants: filters.assistants,
+          endReasonCategories: filters.endReasonCategories,
+          signal: controller.signal
+        };
+        const [data, previous, calls] = await Promise.all([
+          fetchCallAnalytics(startDate, endDate, options),
+          fetchCallAnalytics(previousPeriod.startDate, previousPeriod.endDate, options),
+          fetchCallDetails(1, topCount, startDate, endDate, { field: 'cost', direction: 'desc' }, filters, controller.signal)
+        ]);
+        setAnalyticsData(data);
+        setPreviousData(previous);
+        setTopCalls(calls.data);
+        setGeneratedAt(new Date().toISOString());
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('Error fetching report data:', error);
+        setError(toApiError(error));
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [startDate, endDate, granularity, timeZone, filters, topCount, retryCount]);
+
+  const retry = () => {
+    invalidateCachedData();
+    setRetryCount(count => count + 1);
+  };
+
+  const totals = summarizeAnalytics(analyticsData);
+  const previousTotals = summarizeAnalytics(previousData);
+  const rangeLabel = `${formatDate(startDate.toISOString(), 'long', timeZone)} – ${formatDate(endDate.toISOString(), 'long', timeZone)}`;
+  const pageCount = 4;
+  const pageProps = { pageCount, generatedAt, timeZone };
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    setPdfError(null);
+    try {
+      const day = (date: Date) => new Intl.DateTimeFormat('en-CA', { timeZone }).format(date);
+      await downloadPagesAsPdf(
+        pageRefs.current.filter((page): page is HTMLDivElement => page !== null),
+        `usage-report_${day(startDate)}_${day(endDate)}.pdf`
+      );
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      setPdfError('Failed to generate the PDF. Please try printing the report instead.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Box sx={{
+      bgcolor: reportColors.pageBg,
+      minHeight: '100vh',
+      py: 3,
+      '@media print': { bgcolor: reportColors.background, py: 0 }
+    }}>
+      <GlobalStyles styles={{ '@page': { size: 'A4', margin: 0 } }} />
+      {/* Toolbar, hidden when printing */}
+      <Box sx={{
+        width: PAGE_WIDTH_PX,
+        mx: 'auto',
+        mb: 3,
+        display: 'flex',
+        gap: 2,
+        alignItems: 'center',
+        '@media print': { display: 'none' }
+      }}>
+        <Button component={RouterLink} to={{ pathname: '/', search: location.search }} variant="outlined" sx={{ textTransform: 'none' }}>
+          Back to Dashboard
+        </Button>
+        <Box sx={{ flexGrow: 1 }} />
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel id="top-calls-label">Top Calls</InputLabel>
+          <Select
+            labelId="top-calls-label"
+            value={topCount}
+            label="Top Calls"
+            onChange={(event) => setTopCount(Number(event.target.value))}
+          >
+            {TOP_CALL_OPTIONS.map(option => (
+              <MenuItem key={option} value={option}>Top {option}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button
+          variant="outlined"
+          startIcon={<PrintIcon />}
+          onClick={() => window.print()}
+          disabled={isLoading}
+          sx={{ textTransform: 'none' }}
+        >
+          Print
+        </Button>
+        <Button
+          variant="contained"
+          startIcon={isExporting ? <CircularProgress size={16} color="inherit" /> : <PictureAsPdfIcon />}
+          onClick={handleDownload}
+          disabled={isLoading || isExporting}
+          sx={{ textTransform: 'none', bgcolor: reportColors.accent }}
+        >
+          Download PDF
+        </Button>
+      </Box>
+
+      {error && (
+        <Box sx={{ width: PAGE_WIDTH_PX, mx: 'auto', '@media print': { display: 'none' } }}>
+          <ApiErrorAlert error={error} onRetry={retry} />
+        </Box>
+      )}
+
+      {pdfError && (
+        <Typography sx={{ width: PAGE_WIDTH_PX, mx: 'auto', mb: 3, color: '#dc2626', '@media print': { display: 'none' } }}>
+          {pdfError}
+        </Typography>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 5 }}>
+          <CircularProgress sx={{ color: reportColors.accent }} />
+        </Box>
+      ) : (
+        <>
+          {/* Title Page */}
+          <ReportPage ref={(element) => { pageRefs.current[0] = element; }} pageNumber={1} {...pageProps}>
+            <Box sx={{ display: 'flex', flexDirection: 'column', justifyContent: 'center', height: '100%' }}>
+              <Typography variant="overline" sx={{ color: reportColors.accent, fontWeight: 600 }}>
+                Voice AI Dashboard
+              </Typography>
+              <Typography variant="h3" sx={{ fontWeight: 700, letterSpacing: '-0.025em', mb: 2 }}>
+                Usage Report
+              </Typography>
+              <Typography variant="h6" sx={{ color: reportColors.subtext, fontWeight: 400 }}>
+                {rangeLabel}
+              </Typography>
+              <Box sx={{ mt: 6, display: 'grid', gridTemplateColumns: '160px 1fr', rowGap: 1 }}>
+                <Typography variant="body2" sx={{ color: reportColors.subtext }}>Timezone</Typography>
+                <Typography variant="body2">{timeZone}</Typography>
+                <Typography variant="body2" sx={{ color: reportColors.subtext }}>Assistants</Typography>
+                <Typography variant="body2">
+                  {filters.assistants?.length ? filters.assistants.join(', ') : 'All assistants'}
+                </Typography>
+                <Typography variant="body2" sx={{ color: reportColors.subtext }}>End reasons</Typography>
+                <Typography variant="body2">
+                  {filters.endReasonCategories?.length
+                    ? filters.endReasonCategories.map(category => endReasonCategoryLabels[category]).join(', ')
+                    : 'All end reasons'}
+                </Typography>
+                <Typography variant="body2" sx={{ color: reportColors.subtext }}>Data source</Typography>
+                <Typography variant="body2">{getDataSourceLabel()}</Typography>
+                <Typography variant="body2" sx={{ color: reportColors.subtext }}>Generated</Typography>
+                <Typography variant="body2">{formatDateTime(generatedAt, timeZone)}</Typography>
+              </Box>
+            </Box>
+          </ReportPage>
+
+          {/* Summary and Volume */}
+          <ReportPage ref={(element) => { pageRefs.current[1] = element; }} pageNumber={2} {...pageProps}>
+            <Typography variant="h5" sx={{ fontWeight: 600, mb: 2 }}>Summary</Typography>
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mb: 4 }}>
+              <ReportMetric
+                title="Total Calls"
+                value={String(totals.totalCalls)}
+                delta={computeDelta(totals.totalCalls, previousTotals.totalCalls)}
+              />
+              <ReportMetric
+                title="Total Minutes"
+                value={totals.totalMinutes.toFixed(1)}
+                delta={computeDelta(totals.totalMinutes, previousTotals.totalMinutes)}
+              />
+              <ReportMetric
+                title="Total Cost"
+                value={formatCurrency(totals.totalCost)}
+                delta={computeDelta(totals.totalCost, previousTotals.totalCost)}
+              />
+              <ReportMetric
+                title="Avg Duration"
+                value={`${totals.avgDuration.toFixed(2)} min`}
+                delta={computeDelta(totals.avgDuration, previousTotals.avgDuration)}
+              />
+            </Box>
+            <ReportChart
+              title="Total Calls"
+              data={analyticsData}
+              metric="calls"
+              type="line"
+              granularity={granularity}
+              timeZone={timeZone}
+            />
+            <ReportChart
+              title="Cost"
+              data={analyticsData}
+              metric="cost"
+              type="bar"
+              granularity={granularity}
+              timeZone={timeZone}
+            />
+          </ReportPage>
+
+          {/* Minutes and Duration */}
+          <ReportPage ref={(element) => { pageRefs.current[2] = element; }} pageNumber={3} {...pageProps}>
+            <ReportChart
+              title="Call Minutes"
+              data={analyticsData}
+              metric="minutes"
+              type="area"
+              granularity={granularity}
+              timeZone={timeZone}
+            />
+            <ReportChart
+              title="Average Call Duration"
+              data={analyticsData}
+              metric="avgDuration"
+              type="area"
+              granularity={granularity}
+              timeZone={timeZone}
+            />
+          </ReportPage>
+
+          {/* Top Calls */}
+          <ReportPage ref={(element) => { pageRefs.current[3] = element; }} pageNumber={4} {...pageProps}>
+            <Typography variant="h5" sx={{ fontWeight: 600, mb: 2 }}>Top {topCount} Calls by Cost</Typography>
+            {topCalls.length === 0 ? (
+              <Typography sx={{ color: reportColors.subtext }}>No calls in this range</Typography>
+            ) : (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    {['Time', 'Duration', 'Cost', 'End Reason', 'Assistant'].map(label => (
+                      <TableCell
+                        key={label}
+                        align={label === 'Duration' || label === 'Cost' ? 'right' : 'left'}
+                        sx={{ ...cellSx, color: reportColors.subtext, fontWeight: 600 }}
+                      >
+                        {label}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {topCalls.map(call => (
+                    <TableRow key={call.id}>
+                      <TableCell sx={cellSx}>{formatDateTime(call.timestamp, timeZone)}</TableCell>
+                      <TableCell align="right" sx={cellSx}>{formatDuration(call.duration)}</TableCell>
+                      <TableCell align="right" sx={cellSx}>{formatCurrency(call.cost)}</TableCell>
+                      <TableCell sx={cellSx}>{formatEndReason(call.endReason)}</TableCell>
+                      <TableCell sx={cellSx}>{call.assistant || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ReportPage>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default Report;
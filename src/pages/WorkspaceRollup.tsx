@@ -0,0 +1,270 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CircularProgress,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { Link as RouterLink, useLocation } from 'react-router-dom';
+import { useDateRange } from '../context/DateRangeContext';
+import { useTimezone } from '../context/TimezoneContext';
+import { useWorkspaces } from '../context/WorkspaceContext';
+import WorkspaceSelect from '../components/WorkspaceSelect';
+import AccountMenu from '../components/AccountMenu';
+import SummaryCard from '../components/SummaryCard';
+import { fetchCallAnalytics, createWorkspaceDataSource } from '../services/apiService';
+import { toApiError } from '../services/apiClient';
+import { formatDate, formatCurrency } from '../utils/formatters';
+import { summarizeAnalytics, SummaryMetrics } from '../utils/metrics';
+import { ApiError } from '../types/api';
+import { uiColors } from '../styles/uiColors';
+
+const cellSx = {
+  color: uiColors.text,
+  borderColor: uiColors.border
+};
+
+/**
+ * Totals of one workspace, or why they could not be loaded
+ */
+interface WorkspaceTotals {
+  workspaceId: string;
+  summary?: SummaryMetrics;
+  error?: ApiError;
+}
+
+/**
+ * Summary cards summed across every workspace, with each workspace's totals below
+ * Costs are only summed within a currency, as no exchange rates are known
+ */
+const WorkspaceRollup: React.FC = () => {
+  const { startDate, endDate } = useDateRange();
+  const { timeZone } = useTimezone();
+  const { workspaces, switchWorkspace } = useWorkspaces();
+  const location = useLocation();
+  const [totals, setTotals] = useState<WorkspaceTotals[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchTotals = async () => {
+      setIsLoading(true);
+      const results = await Promise.allSettled(workspaces.map(workspace => fetchCallAnalytics(startDate, endDate, {
+        timeZone,
+        signal: controller.signal,
+        dataSource: createWorkspaceDataSource(workspace)
+      })));
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      setTotals(results.map((result, index) => {
+        const workspaceId = workspaces[index].id;
+        // A failing workspace is shown with its error rather than failing the whole page
+        return result.status === 'fulfilled'
+          ? { workspaceId, summary: summarizeAnalytics(result.value) }
+          : { workspaceId, error: toApiError(result.reason) };
+      }));
+      setIsLoading(false);
+    };
+
+    fetchTotals();
+    return () => controller.abort();
+  }, [startDate, endDate, timeZone, workspaces]);
+
+  const loaded = workspaces.map(workspace => ({
+    workspace,
+    totals: totals.find(item => item.workspaceId === workspace.id)
+  }));
+  const summaries = loaded.flatMap(({ workspace, totals }) => totals?.summary ? [{ workspace, summary: totals.summary }] : []);
+
+  const totalCalls = summaries.reduce((sum, { summary }) => sum + summary.totalCalls, 0);
+  const totalMinutes = summaries.reduce((sum, { summary }) => sum + summary.totalMinutes, 0);
+  const avgDuration = totalCalls > 0 ? totalMinutes / totalCalls : 0;
+  const costByCurrency = summaries.reduce<Record<string, number>>((costs, { workspace, summary }) => ({
+    ...costs,
+    [workspace.currency]: (costs[workspace.currency] || 0) + summary.totalCost
+  }), {});
+  const totalCost = Object.entries(costByCurrency)
+    .map(([currency, cost]) => formatCurrency(cost, 2, currency))
+    .join(' + ') || formatCurrency(0);
+  const failedCount = loaded.filter(({ totals }) => totals?.error).length;
+
+  return (
+    <Box sx={{
+      bgcolor: uiColors.background,
+      minHeight: '100vh',
+      p: 3,
+      color: uiColors.text
+    }}>
+      <Box sx={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        mb: 4,
+        borderBottom: `1px solid ${uiColors.border}`,
+        pb: 2
+      }}>
+        <Box>
+          <Typography
+            variant="h4"
+            component="h1"
+            sx={{
+              fontWeight: 600,
+              letterSpacing: '-0.025em'
+            }}
+          >
+            All Workspaces
+          </Typography>
+          <Typography variant="body2" sx={{ color: uiColors.subtext, mt: 0.5 }}>
+            {formatDate(startDate.toISOString(), 'medium', timeZone)} – {formatDate(endDate.toISOString(), 'medium', timeZone)}
+          </Typography>
+        </Box>
+        <Box sx={{
+          display: 'flex',
+          gap: 2,
+          alignItems: 'center',
+          '& .MuiInputBase-root': {
+            color: uiColors.text,
+            bgcolor: 'rgba(255,255,255,0.05)',
+            borderRadius: '8px'
+          },
+          '& .MuiOutlinedInput-notchedOutline': {
+            borderColor: 'rgba(255,255,255,0.1)'
+          },
+          '& .MuiInputLabel-root': {
+            color: uiColors.subtext
+          }
+        }}>
+          <WorkspaceSelect />
+          <Button
+            component={RouterLink}
+            to={{ pathname: '/', search: location.search }}
+            variant="outlined"
+            sx={{
+              color: uiColors.text,
+              borderColor: 'rgba(255,255,255,0.1)',
+              borderRadius: '8px',
+              textTransform: 'none',
+              height: 56
+            }}
+          >
+            Back to Dashboard
+          </Button>
+          <AccountMenu />
+        </Box>
+      </Box>
+
+      {!isLoading && failedCount > 0 && (
+        <Typography variant="body2" sx={{ color: '#f59e0b', mb: 2 }}>
+          {failedCount === 1 ? '1 workspace' : `${failedCount} workspaces`} could not be loaded and {failedCount === 1 ? 'is' : 'are'} left out of the totals.
+        </Typography>
+      )}
+
+      <Grid container spacing={3} sx={{ mb: 4 }}>
+        <Grid item xs={12} sm={6} md={3}>
+          <SummaryCard
+            title="Total Calls"
+            value={String(totalCalls)}
+            color={uiColors.chartColors.calls}
+            isLoading={isLoading}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <SummaryCard
+            title="Total Minutes"
+            value={totalMinutes.toFixed(1)}
+            color={uiColors.chartColors.minutes}
+            isLoading={isLoading}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <SummaryCard
+            title="Total Cost"
+            value={totalCost}
+            color={uiColors.chartColors.cost}
+            isLoading={isLoading}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <SummaryCard
+            title="Avg Duration"
+            value={`${avgDuration.toFixed(2)} min`}
+            color={uiColors.chartColors.avgDuration}
+            isLoading={isLoading}
+          />
+        </Grid>
+      </Grid>
+
+      <Card
+        elevation={0}
+        sx={{
+          bgcolor: uiColors.cardBg,
+          borderRadius: '12px',
+          border: `1px solid ${uiColors.border}`,
+          overflow: 'hidden'
+        }}
+      >
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ ...cellSx, color: uiColors.subtext, fontWeight: 600 }}>Workspace</TableCell>
+                <TableCell align="right" sx={{ ...cellSx, color: uiColors.subtext, fontWeight: 600 }}>Calls</TableCell>
+                <TableCell align="right" sx={{ ...cellSx, color: uiColors.subtext, fontWeight: 600 }}>Minutes</TableCell>
+                <TableCell align="right" sx={{ ...cellSx, color: uiColors.subtext, fontWeight: 600 }}>Cost</TableCell>
+                <TableCell align="right" sx={{ ...cellSx, color: uiColors.subtext, fontWeight: 600 }}>Avg Duration</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ ...cellSx, py: 5 }}>
+                    <CircularProgress sx={{ color: uiColors.accent }} />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                loaded.map(({ workspace, totals }) => (
+                  <TableRow
+                    key={workspace.id}
+                    hover
+                    onClick={() => switchWorkspace(workspace.id, '/')}
+                    sx={{
+                      cursor: 'pointer',
+                      '&.MuiTableRow-hover:hover': { bgcolor: 'rgba(255,255,255,0.04)' }
+                    }}
+                  >
+                    <TableCell sx={cellSx}>{workspace.name}</TableCell>
+                    {totals?.summary ? (
+                      <>
+                        <TableCell align="right" sx={cellSx}>{totals.summary.totalCalls.toLocaleString()}</TableCell>
+                        <TableCell align="right" sx={cellSx}>{totals.summary.totalMinutes.toFixed(1)}</TableCell>
+                        <TableCell align="right" sx={cellSx}>{formatCurrency(totals.summary.totalCost, 2, workspace.currency)}</TableCell>
+                        <TableCell align="right" sx={cellSx}>{totals.summary.avgDuration.toFixed(2)} min</TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={4} align="right" sx={{ ...cellSx, color: '#ef4444' }}>
+                        {totals?.error?.message || 'Not loaded'}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Card>
+    </Box>
+  );
+};
+
+export default WorkspaceRollup;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Routes, Route, Navigate } from 'react-router-dom';
+import { AuthProvider } from './context/AuthContext';
+import { DateRangeProvider } from './context/DateRangeContext';
+import { TimezoneProvider } from './context/TimezoneContext';
+import { FiltersProvider } from './context/FiltersContext';
+import { BudgetProvider } from './context/BudgetContext';
+import { AnnotationProvider } from './context/AnnotationContext';
+import { SavedViewProvider } from './context/SavedViewContext';
+import { WorkspaceProvider, useWorkspaces } from './context/WorkspaceContext';
+import RequireAuth from './components/RequireAuth';
+import Dashboard from './pages/Dashboard';
+import Calls from './pages/Calls';
+import Report from './pages/Report';
+import Login from './pages/Login';
+import WorkspaceRollup from './pages/WorkspaceRollup';
+
+/**
+ * Routes reading from the open workspace
+ * Keyed on the workspace's connection, so switching or re-pointing it
+ * reloads its settings and refetches every page
+ */
+const WorkspaceRoutes: React.FC = () => {
+  const { activeWorkspace } = useWorkspaces();
+
+  return (
+    <FiltersProvider key={`${activeWorkspace.id}|${activeWorkspace.url}|${activeWorkspace.key}`}>
+      <BudgetProvider>
+        <AnnotationProvider>
+          <SavedViewProvider>
+            <Routes>
+              <Route path="/" element={<Dashboard />} />
+              <Route path="/calls" element={<Calls />} />
+              <Route path="/report" element={<Report />} />
+              <Route path="/workspaces" element={<WorkspaceRollup />} />
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
+          </SavedViewProvider>
+        </AnnotationProvider>
+      </BudgetProvider>
+    </FiltersProvider>
+  );
+};
+
+/**
+ * Routes that need a signed-in user
+ * The providers sit inside the sign-in check, so settings are only loaded
+ * with the user's token and start afresh for each user
+ */
+const ProtectedRoutes: React.FC = () => (
+  <RequireAuth>
+    <TimezoneProvider>
+      <WorkspaceProvider>
+        <DateRangeProvider>
+          <WorkspaceRoutes />
+        </DateRangeProvider>
+      </WorkspaceProvider>
+    </TimezoneProvider>
+  </RequireAuth>
+);
+
+/**
+ * Application routes, rendered inside the app's router
+ */
+const AppRoutes: React.FC = () => (
+  <AuthProvider>
+    <Routes>
+      <Route path="/login" element={<Login />} />
+      <Route path="/*" element={<ProtectedRoutes />} />
+    </Routes>
+  </AuthProvider>
+);
+
+export default AppRoutes;
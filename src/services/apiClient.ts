@@ -0,0 +1,217 @@
+import axios, { AxiosInstance, CreateAxiosDefaults, GenericAbortSignal, InternalAxiosRequestConfig } from 'axios';
+import { ApiError, ApiErrorKind } from '../types/api';
+
+// Retries after the first attempt for transient failures
+const MAX_RETRIES = 3;
+
+// Backoff before the first retry, doubled for each one after it
+const BASE_RETRY_DELAY_MS = 500;
+
+// Longest wait before a retry, longer Retry-After waits are left to the user
+const MAX_RETRY_DELAY_MS = 10 * 1000;
+
+// PostgREST codes for permission denied, unknown table or function, and
+// tables or functions missing from its schema cache
+const ACCESS_ERROR_CODES = ['42501', '42P01', '42883', 'PGRST202', 'PGRST205'];
+
+/**
+ * Error thrown by API clients, an Error carrying the ApiError fields
+ */
+export type ApiRequestError = Error & ApiError;
+
+/**
+ * Options for an API client
+ */
+export interface ApiClientOptions {
+  /**
+   * Resolve the bearer token for each request, e.g. the signed-in user's JWT
+   * The Authorization header from the defaults is kept when it resolves null
+   */
+  getAccessToken?: () => Promise<string | null>;
+}
+
+/**
+ * Request config remembering how many times the request was retried
+ */
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryAttempt?: number;
+}
+
+/**
+ * Check whether an error has been normalized into an ApiError
+ */
+export const isApiError = (error: unknown): error is ApiRequestError => {
+  return error instanceof Error && error.name === 'ApiError';
+};
+
+/**
+ * Read a Retry-After header, given in seconds or as an HTTP date
+ * @returns Seconds to wait, undefined without a usable header
+ */
+const parseRetryAfter = (header: unknown): number | undefined => {
+  if (header === undefined || header === null || header === '') {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(String(header));
+  return isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+};
+
+/**
+ * Classify a failed request by its status and error code
+ */
+const getErrorKind = (status: number, code: string): ApiErrorKind => {
+  if (status === 0) {
+    return 'offline';
+  }
+  if (ACCESS_ERROR_CODES.includes(code) || status === 403 || status === 404) {
+    return 'access';
+  }
+  if (status === 401) {
+    return 'credentials';
+  }
+  if (status === 429) {
+    return 'rateLimited';
+  }
+  if (status === 408 || status >= 500) {
+    return 'server';
+  }
+  return 'unknown';
+};
+
+/**
+ * Normalize any failure into an ApiError
+ * Axios errors take the message and code from the response body when the
+ * server sent one (PostgREST, GoTrue and Vapi do), other errors keep their message
+ * @param error Caught error
+ * @returns Error carrying the ApiError fields
+ */
+export const toApiError = (error: unknown): ApiRequestError => {
+  if (isApiError(error)) {
+    return error;
+  }
+
+  let fields: ApiError;
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status ?? 0;
+    const body = error.response?.data as Record<string, unknown> | undefined;
+    const code = typeof body?.code === 'string' ? body.code : error.code || String(status);
+    // GoTrue reports errors as `msg` or `error_description`
+    const message = [body?.message, body?.msg, body?.error_description].find(value => typeof value === 'string' && value);
+    fields = {
+      message: typeof message === 'string' ? message : error.message,
+      code,
+      status,
+      kind: getErrorKind(status, code),
+      retryAfter: parseRetryAfter(error.response?.headers['retry-after'])
+    };
+  } else {
+    fields = {
+      message: error instanceof Error ? error.message : String(error),
+      code: 'unknown',
+      status: 0,
+      kind: 'unknown'
+    };
+  }
+
+  return Object.assign(new Error(fields.message), fields, { name: 'ApiError' });
+};
+
+/**
+ * Check whether retrying a failed request could succeed
+ */
+export const isTransientError = (error: ApiError): boolean => {
+  return error.kind === 'server' || error.kind === 'offline' || error.kind === 'rateLimited';
+};
+
+/**
+ * Pick how long to wait before retrying a failed request
+ * @param error Normalized error
+ * @param attempt Retries made so far
+ * @returns Milliseconds to wait, null when the request should not be retried
+ */
+const getRetryDelay = (error: ApiError, attempt: number): number | null => {
+  if (attempt >= MAX_RETRIES || !isTransientError(error)) {
+    return null;
+  }
+  // Retrying can't help while the browser knows it is offline
+  if (error.kind === 'offline' && typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return null;
+  }
+  if (error.retryAfter !== undefined) {
+    const delay = error.retryAfter * 1000;
+    return delay <= MAX_RETRY_DELAY_MS ? delay : null;
+  }
+  // Rate limits without a Retry-After give no hint when to come back
+  if (error.kind === 'rateLimited') {
+    return null;
+  }
+  // Jitter keeps clients that failed together from retrying together
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+};
+
+/**
+ * Wait before a retry, rejecting as a cancelled request when aborted
+ */
+const waitForRetry = (delay: number, signal?: GenericAbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new axios.CanceledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new axios.CanceledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener?.('abort', onAbort);
+    resolve();
+  }, delay);
+  signal?.addEventListener?.('abort', onAbort);
+});
+
+/**
+ * Create an axios instance that retries transient failures and rejects with ApiErrors
+ * Server errors and network failures are retried with exponential backoff,
+ * rate limits when the server says how long to wait with Retry-After.
+ * Requests should be safe to repeat, reads or upserts
+ * @param config Axios instance defaults
+ * @param options Client options
+ */
+export const createApiClient = (config: CreateAxiosDefaults = {}, options: ApiClientOptions = {}): AxiosInstance => {
+  const client = axios.create(config);
+
+  const { getAccessToken } = options;
+  if (getAccessToken) {
+    // Read the token per request, so retries and later requests pick up refreshed tokens
+    client.interceptors.request.use(async (requestConfig) => {
+      const token = await getAccessToken();
+      if (token) {
+        requestConfig.headers.Authorization = `Bearer ${token}`;
+      }
+      return requestConfig;
+    });
+  }
+
+  client.interceptors.response.use(undefined, async (error) => {
+    // Aborted requests are passed on untouched so callers can tell them apart
+    if (axios.isCancel(error)) {
+      throw error;
+    }
+
+    const apiError = toApiError(error);
+    const requestConfig = axios.isAxiosError(error) ? error.config as RetryableRequestConfig | undefined : undefined;
+    const attempt = requestConfig?.retryAttempt ?? 0;
+    const delay = requestConfig ? getRetryDelay(apiError, attempt) : null;
+    if (!requestConfig || delay === null) {
+      throw apiError;
+    }
+
+    await waitForRetry(delay, requestConfig.signal);
+    return client.request({ ...requestConfig, retryAttempt: attempt + 1 } as RetryableRequestConfig);
+  });
+
+  return client;
+};
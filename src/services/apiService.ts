@@ -1,163 +1,591 @@
 import axios from 'axios';
-import { CallRecord, CallAnalytics, CallDetail } from '../types/api';
-
-// Configure axios defaults
-const API_URL = import.meta.env.VITE_API_URL || 'https://api.example.com';
-const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || '';
-const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
-
-// Create an axios instance for Supabase
-const supabaseApi = axios.create({
-  baseURL: SUPABASE_URL,
-  headers: {
-    'apikey': SUPABASE_KEY,
-    'Authorization': `Bearer ${SUPABASE_KEY}`,
-    'Content-Type': 'application/json'
+import {
+  CallRecord,
+  CallAnalytics,
+  CallDetail,
+  CallSort,
+  CallFilters,
+  Granularity,
+  AssistantAnalytics,
+  AssistantStats,
+  EndReasonAnalytics,
+  EndReasonCategory,
+  EndReasonStats
+} from '../types/api';
+import {
+  createDataSource,
+  getDataSource,
+  getUncachedDataSource,
+  invalidateDataSourceCache,
+  isSignInRequired,
+  setDataSource,
+  withQueryCache
+} from './dataSources';
+import { createWorkspaceSettingsStore, setSettingsStore } from './settingsStore';
+import { DEFAULT_WORKSPACE_ID, getWorkspaceDataSourceConfig } from './workspaces';
+import { getQueryCache } from './queryCache';
+import { toApiError } from './apiClient';
+import { filterCalls } from './dataSources/memoryDataSource';
+import { CallDataSource, LiveStatus } from '../types/dataSource';
+import { Workspace } from '../types/workspace';
+import { getBucketStart, getNextBucket, fillBuckets, pickGranularity, isGranularityAllowed } from '../utils/timeBuckets';
+import { categorizeEndReason, END_REASON_CATEGORIES } from '../utils/endReasons';
+import { resolveRecordingUrl } from '../utils/recordings';
+import { evaluateBudget, getBudgetPeriod } from '../utils/budgets';
+import { Budget, BudgetStatus } from '../types/budget';
+
+// Ranges longer than this skip the zero-filled buckets before the first call
+const TRIM_LEADING_GAP_AFTER_MS = 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Options for fetching call analytics
+ */
+export interface CallAnalyticsOptions extends CallFilters {
+  /** Bucket size, picked from the range length when omitted */
+  granularity?: Granularity;
+  /** IANA timezone buckets are aligned to, defaults to UTC */
+  timeZone?: string;
+  /** Aborts the requests when signalled */
+  signal?: AbortSignal;
+  /** Read from this data source instead of the active workspace's, e.g. for roll-ups */
+  dataSource?: CallDataSource;
+}
+
+/**
+ * Check whether an error comes from a request that was aborted on purpose
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError');
+};
+
+/**
+ * Aggregate call records into per-bucket metrics
+ */
+const aggregateCalls = (callRecords: CallRecord[], granularity: Granularity, timeZone: string): CallAnalytics[] => {
+  // Group by bucket and aggregate metrics
+  const analytics: Record<string, CallAnalytics> = {};
+  
+  callRecords.forEach(item => {
+    // Get the start of the bucket the call falls into for grouping
+    const dateStr = getBucketStart(new Date(item.created_at), granularity, timeZone).toISOString();
+    
+    // Convert seconds to minutes
+    const durationMinutes = item.duration / 60;
+    
+    // Use actual cost from the database
+    const callCost = item.cost || 0;
+    
+    // Initialize date entry if it doesn't exist
+    if (!analytics[dateStr]) {
+      analytics[dateStr] = {
+        date: dateStr,
+        calls: 0,
+        minutes: 0,
+        cost: 0,
+        avgDuration: 0
+      };
+    }
+    
+    // Update metrics
+    analytics[dateStr].calls += 1;
+    analytics[dateStr].minutes += durationMinutes;
+    analytics[dateStr].cost += callCost;
+    
+    // Recalculate average duration
+    analytics[dateStr].avgDuration = 
+      analytics[dateStr].minutes / analytics[dateStr].calls;
+  });
+  
+  // Convert to array and ensure chronological order
+  const result = Object.values(analytics).sort((a, b) => 
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+  
+  return result;
+};
+
+/**
+ * Aggregate call records into per-bucket metrics for each assistant
+ */
+const aggregateByAssistant = (callRecords: CallRecord[], granularity: Granularity, timeZone: string): AssistantAnalytics[] => {
+  const byAssistant: Record<string, CallRecord[]> = {};
+  callRecords.forEach(record => {
+    const assistant = record["Assistant"] || '';
+    (byAssistant[assistant] = byAssistant[assistant] || []).push(record);
+  });
+  
+  return Object.entries(byAssistant).flatMap(([assistant, records]) =>
+    aggregateCalls(records, granularity, timeZone).map(item => ({ ...item, assistant }))
+  );
+};
+
+/**
+ * Aggregate call records into per-bucket metrics for each end reason
+ */
+const aggregateByEndReason = (callRecords: CallRecord[], granularity: Granularity, timeZone: string): EndReasonAnalytics[] => {
+  const byEndReason: Record<string, CallRecord[]> = {};
+  callRecords.forEach(record => {
+    const endReason = record.end_reason || 'unknown';
+    (byEndReason[endReason] = byEndReason[endReason] || []).push(record);
+  });
+  
+  return Object.entries(byEndReason).flatMap(([endReason, records]) =>
+    aggregateCalls(records, granularity, timeZone).map(item => ({ ...item, endReason }))
+  );
+};
+
+/**
+ * Sum buckets that start at the same time into one
+ */
+const mergeBuckets = (analytics: CallAnalytics[]): CallAnalytics[] => {
+  const merged = new Map<string, CallAnalytics>();
+  analytics.forEach(item => {
+    const existing = merged.get(item.date);
+    if (!existing) {
+      merged.set(item.date, { ...item });
+      return;
+    }
+    existing.calls += item.calls;
+    existing.minutes += item.minutes;
+    existing.cost += item.cost;
+    existing.avgDuration = existing.calls > 0 ? existing.minutes / existing.calls : 0;
+  });
+  return [...merged.values()];
+};
+
+/**
+ * Resolve the bucket size for a range, falling back to an automatic size
+ * when the requested one is too fine for the range
+ */
+const resolveGranularity = (startDate: Date, endDate: Date, granularity?: Granularity): Granularity => {
+  return granularity && isGranularityAllowed(startDate, endDate, granularity)
+    ? granularity
+    : pickGranularity(startDate, endDate);
+};
+
+/**
+ * Get where zero-filling starts for a range
+ * Very long ranges (e.g. All Time) start at the first call rather than years of empty buckets
+ */
+const getFillStart = (startDate: Date, endDate: Date, analytics: CallAnalytics[]): Date => {
+  if (analytics.length === 0 || endDate.getTime() - startDate.getTime() <= TRIM_LEADING_GAP_AFTER_MS) {
+    return startDate;
+  }
+  const firstBucket = Math.min(...analytics.map(item => new Date(item.date).getTime()));
+  return new Date(Math.max(startDate.getTime(), firstBucket));
+};
+
+/**
+ * Map a call record to the call list format
+ */
+const toCallDetail = (item: CallRecord): CallDetail => {
+  return {
+    id: item.id,
+    timestamp: item.created_at,
+    duration: item.duration,
+    cost: item.cost || 0, // Use actual cost from database
+    endReason: item.end_reason || 'unknown',
+    endReasonCategory: categorizeEndReason(item.end_reason || 'unknown'),
+    assistant: item["Assistant"],
+    customerNumber: item["Customer Phone Number"],
+    recordingUrl: resolveRecordingUrl(item.recording_url),
+    transcript: item.transcript
+  };
+};
+
+/**
+ * Fetch call analytics data with aggregated metrics per time bucket
+ * Buckets without calls are included with zero values
+ */
+export const fetchCallAnalytics = async (
+  startDate: Date,
+  endDate: Date,
+  options: CallAnalyticsOptions = {}
+): Promise<CallAnalytics[]> => {
+  try {
+    const granularity = resolveGranularity(startDate, endDate, options.granularity);
+    const timeZone = options.timeZone || 'UTC';
+    const query = {
+      startDate,
+      endDate,
+      assistants: options.assistants,
+      endReasonCategories: options.endReasonCategories,
+      signal: options.signal
+    };
+    
+    const dataSource = options.dataSource ?? getDataSource();
+    
+    // Prefer aggregation on the backend, it avoids transferring every row
+    let analytics = await dataSource.aggregateCalls?.(query, granularity, timeZone);
+    if (!analytics) {
+      // Process the raw data into the format needed for analytics
+      const callRecords = await dataSource.listCalls(query);
+      analytics = aggregateCalls(callRecords, granularity, timeZone);
+    }
+    
+    return fillBuckets(analytics, getFillStart(startDate, endDate, analytics), endDate, granularity, timeZone);
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error('Error fetching call analytics:', error);
+    }
+    throw isAbortError(error) ? error : toApiError(error);
   }
-});
+};
+
+/**
+ * Per-assistant analytics for the assistant breakdown and leaderboard
+ */
+export interface AssistantBreakdown {
+  /** Analytics series for each assistant, all covering the same buckets */
+  series: Record<string, CallAnalytics[]>;
+  /** Assistant totals, ordered by call volume */
+  leaderboard: AssistantStats[];
+}
 
 /**
- * Fetch call analytics data with aggregated metrics by date
+ * Fetch call analytics split per assistant
  */
-export const fetchCallAnalytics = async (startDate: Date, endDate: Date): Promise<CallAnalytics[]> => {
+export const fetchAssistantBreakdown = async (
+  startDate: Date,
+  endDate: Date,
+  options: CallAnalyticsOptions = {}
+): Promise<AssistantBreakdown> => {
   try {
-    // Format the dates for the API request
-    const formattedStartDate = startDate.toISOString();
-    const formattedEndDate = endDate.toISOString();
-    
-    // Query Supabase for call records
-    const response = await supabaseApi.get('/rest/v1/calls', {
-      params: {
-        select: '*',
-        created_at: `gte.${formattedStartDate},lte.${formattedEndDate}`,
-        order: 'created_at.asc'
-      }
-    });
+    const granularity = resolveGranularity(startDate, endDate, options.granularity);
+    const timeZone = options.timeZone || 'UTC';
+    const query = {
+      startDate,
+      endDate,
+      assistants: options.assistants,
+      endReasonCategories: options.endReasonCategories,
+      signal: options.signal
+    };
     
-    // Process the raw data into the format needed for analytics
-    const callRecords: CallRecord[] = response.data || [];
+    const dataSource = options.dataSource ?? getDataSource();
     
-    // Group by date and aggregate metrics
-    const analytics: Record<string, CallAnalytics> = {};
+    // Prefer aggregation on the backend, otherwise group the raw records per assistant
+    const rows: AssistantAnalytics[] = await dataSource.aggregateCallsByAssistant?.(query, granularity, timeZone)
+      ?? aggregateByAssistant(await dataSource.listCalls(query), granularity, timeZone);
     
-    callRecords.forEach(item => {
-      // Get the date part only (YYYY-MM-DD) for grouping
-      const dateStr = new Date(item.created_at).toISOString().split('T')[0];
-      
-      // Convert seconds to minutes
-      const durationMinutes = item.duration / 60;
-      
-      // Use actual cost from the database
-      const callCost = item.cost || 0;
-      
-      // Initialize date entry if it doesn't exist
-      if (!analytics[dateStr]) {
-        analytics[dateStr] = {
-          date: dateStr,
-          calls: 0,
-          minutes: 0,
-          cost: 0,
-          avgDuration: 0
-        };
-      }
-      
-      // Update metrics
-      analytics[dateStr].calls += 1;
-      analytics[dateStr].minutes += durationMinutes;
-      analytics[dateStr].cost += callCost;
+    const fillStart = getFillStart(startDate, endDate, rows);
+    const series: Record<string, CallAnalytics[]> = {};
+    const leaderboard: AssistantStats[] = [];
+    
+    new Set(rows.map(row => row.assistant)).forEach(assistant => {
+      const assistantRows = rows.filter(row => row.assistant === assistant);
+      series[assistant] = fillBuckets(assistantRows, fillStart, endDate, granularity, timeZone);
       
-      // Recalculate average duration
-      analytics[dateStr].avgDuration = 
-        analytics[dateStr].minutes / analytics[dateStr].calls;
+      const calls = assistantRows.reduce((sum, row) => sum + row.calls, 0);
+      const minutes = assistantRows.reduce((sum, row) => sum + row.minutes, 0);
+      const cost = assistantRows.reduce((sum, row) => sum + row.cost, 0);
+      leaderboard.push({
+        assistant,
+        calls,
+        minutes,
+        cost,
+        avgDuration: calls > 0 ? minutes / calls : 0,
+        costPerMinute: minutes > 0 ? cost / minutes : 0
+      });
+    });
+    
+    leaderboard.sort((a, b) => b.calls - a.calls);
+    
+    return { series, leaderboard };
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error('Error fetching assistant breakdown:', error);
+    }
+    throw isAbortError(error) ? error : toApiError(error);
+  }
+};
+
+/**
+ * End reason analytics for the end reason distribution and trend charts
+ */
+export interface EndReasonBreakdown {
+  /** Analytics series for each end reason category, all covering the same buckets */
+  series: Record<EndReasonCategory, CallAnalytics[]>;
+  /** Call counts per end reason, most frequent first */
+  reasons: EndReasonStats[];
+}
+
+/**
+ * Fetch call analytics split per end reason category
+ */
+export const fetchEndReasonBreakdown = async (
+  startDate: Date,
+  endDate: Date,
+  options: CallAnalyticsOptions = {}
+): Promise<EndReasonBreakdown> => {
+  try {
+    const granularity = resolveGranularity(startDate, endDate, options.granularity);
+    const timeZone = options.timeZone || 'UTC';
+    const query = {
+      startDate,
+      endDate,
+      assistants: options.assistants,
+      endReasonCategories: options.endReasonCategories,
+      signal: options.signal
+    };
+    
+    const dataSource = options.dataSource ?? getDataSource();
+    
+    // Prefer aggregation on the backend, otherwise group the raw records per end reason
+    const rows: EndReasonAnalytics[] = await dataSource.aggregateCallsByEndReason?.(query, granularity, timeZone)
+      ?? aggregateByEndReason(await dataSource.listCalls(query), granularity, timeZone);
+    
+    const fillStart = getFillStart(startDate, endDate, rows);
+    const series = {} as Record<EndReasonCategory, CallAnalytics[]>;
+    END_REASON_CATEGORIES.forEach(category => {
+      const categoryRows = rows.filter(row => categorizeEndReason(row.endReason) === category);
+      series[category] = fillBuckets(mergeBuckets(categoryRows), fillStart, endDate, granularity, timeZone);
     });
     
-    // Convert to array and ensure chronological order
-    const result = Object.values(analytics).sort((a, b) => 
-      new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
+    const callsByReason = new Map<string, number>();
+    rows.forEach(row => callsByReason.set(row.endReason, (callsByReason.get(row.endReason) || 0) + row.calls));
+    const reasons: EndReasonStats[] = [...callsByReason.entries()]
+      .map(([endReason, calls]) => ({ endReason, category: categorizeEndReason(endReason), calls }))
+      .sort((a, b) => b.calls - a.calls);
     
-    return result;
+    return { series, reasons };
   } catch (error) {
-    console.error('Error fetching call analytics:', error);
-    throw error;
+    if (!isAbortError(error)) {
+      console.error('Error fetching end reason breakdown:', error);
+    }
+    throw isAbortError(error) ? error : toApiError(error);
   }
 };
 
+/**
+ * Fetch spending against each budget in its current day or month
+ * @param budgets Budgets to check
+ * @param timeZone IANA timezone budget periods are aligned to
+ * @param now Reference time, defaults to the current time
+ * @param signal Aborts the requests when signalled
+ */
+export const fetchBudgetStatuses = async (
+  budgets: Budget[],
+  timeZone: string,
+  now: Date = new Date(),
+  signal?: AbortSignal
+): Promise<BudgetStatus[]> => {
+  try {
+    const monthStart = getBudgetPeriod('month', now, timeZone).start;
+    const dayStart = getBudgetPeriod('day', now, timeZone).start;
+    
+    // One month-to-date series per assistant covers both daily and monthly budgets
+    const scopes = [...new Set(budgets.map(budget => budget.assistant || ''))];
+    const series = await Promise.all(scopes.map(assistant =>
+      fetchCallAnalytics(monthStart, now, {
+        granularity: 'day',
+        timeZone,
+        assistants: assistant ? [assistant] : undefined,
+        signal
+      })
+    ));
+    
+    return budgets.map(budget => {
+      const daily = series[scopes.indexOf(budget.assistant || '')];
+      const periodStart = budget.period === 'day' ? dayStart : monthStart;
+      const spent = daily
+        .filter(item => new Date(item.date).getTime() >= periodStart.getTime())
+        .reduce((sum, item) => sum + item.cost, 0);
+      return evaluateBudget(budget, spent, now, timeZone);
+    });
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error('Error fetching budget statuses:', error);
+    }
+    throw isAbortError(error) ? error : toApiError(error);
+  }
+};
+
+/**
+ * Fetch the assistants that handled calls in a range, busiest first
+ */
+export const fetchAssistants = async (startDate: Date, endDate: Date): Promise<string[]> => {
+  const { leaderboard } = await fetchAssistantBreakdown(startDate, endDate, { granularity: 'month' });
+  return leaderboard.map(stats => stats.assistant).filter(Boolean);
+};
+
 /**
  * Fetch call details with pagination
+ * @param useCache Read through the query cache, off for reads that would only
+ * push the dashboard's results out of it, e.g. exporting every page
  */
 export const fetchCallDetails = async (
   page = 1, 
   pageSize = 10,
   startDate?: Date,
-  endDate?: Date
+  endDate?: Date,
+  sort: CallSort = { field: 'timestamp', direction: 'desc' },
+  filters: CallFilters = {},
+  signal?: AbortSignal,
+  useCache = true
 ): Promise<{data: CallDetail[], total: number}> => {
   try {
     // Calculate pagination range
-    const from = (page - 1) * pageSize;
-    const to = from + pageSize - 1;
-    
-    // Build query parameters
-    const params: Record<string, any> = {
-      select: '*',
-      order: 'created_at.desc'
-    };
+    const offset = (page - 1) * pageSize;
+    const dataSource = useCache ? getDataSource() : getUncachedDataSource();
     
-    // Add date range filter if provided
-    if (startDate && endDate) {
-      params.created_at = `gte.${startDate.toISOString()},lte.${endDate.toISOString()}`;
-    }
-    
-    // Fetch count first
-    const countResponse = await supabaseApi.get('/rest/v1/calls', {
-      params: {
-        ...params,
-        count: 'exact',
-        limit: 1
-      },
-      headers: {
-        'Range-Unit': 'items',
-        'Prefer': 'count=exact'
-      }
-    });
-    
-    // Get total count from headers
-    const totalCount = parseInt(countResponse.headers['content-range']?.split('/')[1] || '0', 10);
-    
-    // Then fetch actual page data
-    const response = await supabaseApi.get('/rest/v1/calls', {
-      params: {
-        ...params,
-        limit: pageSize,
-        offset: from
-      },
-      headers: {
-        'Range': `${from}-${to}`,
-        'Range-Unit': 'items',
-        'Prefer': 'count=exact'
-      }
-    });
-    
-    const data = response.data || [];
-    
-    // Map to CallDetail format
-    const callDetails: CallDetail[] = (data as CallRecord[]).map((item) => {
-      return {
-        id: item.id,
-        timestamp: item.created_at,
-        duration: item.duration,
-        cost: item.cost || 0, // Use actual cost from database
-        status: item.end_reason.includes('assistant') ? 'assistant-ended' : 'customer-ended',
-        transcript: `Call with ${item["Customer Phone Number"] || 'unknown'}`
-      };
+    const { records, total } = await dataSource.pageCalls({
+      ...filters,
+      startDate,
+      endDate,
+      offset,
+      limit: pageSize,
+      sort,
+      signal
     });
     
     return {
-      data: callDetails,
-      total: totalCount
+      data: records.map(toCallDetail),
+      total
     };
   } catch (error) {
-    console.error('Error fetching call details:', error);
-    throw error;
+    if (!isAbortError(error)) {
+      console.error('Error fetching call details:', error);
+    }
+    throw isAbortError(error) ? error : toApiError(error);
+  }
+};
+
+/**
+ * Fetch the full database record for a single call
+ */
+export const fetchCallRecord = async (id: string, signal?: AbortSignal): Promise<CallRecord | null> => {
+  try {
+    return await getDataSource().getCall(id, signal);
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error('Error fetching call record:', error);
+    }
+    throw isAbortError(error) ? error : toApiError(error);
+  }
+};
+
+/**
+ * Drop the active workspace's cached results, so the next fetches read fresh
+ * data from the backend
+ */
+export const invalidateCachedData = () => {
+  invalidateDataSourceCache();
+};
+
+/**
+ * Listen for cached results that changed when refreshed in the background,
+ * so views showing them can fetch again and pick up the new data
+ * @returns Function removing the listener
+ */
+export const subscribeToCachedDataUpdates = (listener: () => void): (() => void) => {
+  return getQueryCache()?.subscribe(listener) ?? (() => {});
+};
+
+/**
+ * Check whether users have to sign in before data is read
+ * VITE_AUTH_ENABLED decides, by default signing in is required for Supabase data
+ */
+export const isAuthRequired = (): boolean => isSignInRequired();
+
+/**
+ * Check whether the data source can push new calls as they happen
+ */
+export const isLiveSupported = (): boolean => !!getDataSource().subscribeToCalls;
+
+/**
+ * Subscribe to new calls matching the filters
+ * @param filters Filters new calls have to match
+ * @param onCall Called with each new call
+ * @param onStatus Called whenever the subscription's state changes
+ * @returns Function ending the subscription, null when the data source has no live updates
+ */
+export const subscribeToNewCalls = (
+  filters: CallFilters,
+  onCall: (call: CallDetail) => void,
+  onStatus?: (status: LiveStatus) => void
+): (() => void) | null => {
+  const dataSource = getDataSource();
+  if (!dataSource.subscribeToCalls) {
+    return null;
+  }
+  return dataSource.subscribeToCalls({
+    onInsert: (record) => {
+      // Cached results of this source no longer include every call
+      invalidateDataSourceCache();
+      if (filterCalls([record], filters).length > 0) {
+        onCall(toCallDetail(record));
+      }
+    },
+    onStatus
+  });
+};
+
+/**
+ * Add a new call to an analytics series
+ * Calls after the last bucket (e.g. just past midnight) extend the series
+ * with new buckets, calls before the first bucket are left out
+ * @param series Analytics series in chronological order with no gaps
+ * @param call New call
+ * @param granularity Bucket size of the series
+ * @param timeZone IANA timezone the buckets are aligned to
+ * @returns Updated series
+ */
+export const mergeCallIntoAnalytics = (
+  series: CallAnalytics[],
+  call: CallDetail,
+  granularity: Granularity,
+  timeZone: string
+): CallAnalytics[] => {
+  if (series.length === 0) {
+    return series;
+  }
+
+  const bucketStart = getBucketStart(new Date(call.timestamp), granularity, timeZone);
+  const firstBucket = new Date(series[0].date).getTime();
+  const lastBucket = new Date(series[series.length - 1].date);
+  if (bucketStart.getTime() < firstBucket) {
+    return series;
   }
-};
\ No newline at end of file
+
+  const extended = bucketStart.getTime() > lastBucket.getTime()
+    ? [...series, ...fillBuckets([], getNextBucket(lastBucket, granularity, timeZone), bucketStart, granularity, timeZone)]
+    : series;
+
+  return extended.map(bucket => {
+    if (new Date(bucket.date).getTime() !== bucketStart.getTime()) {
+      return bucket;
+    }
+    const calls = bucket.calls + 1;
+    const minutes = bucket.minutes + call.duration / 60;
+    return { ...bucket, calls, minutes, cost: bucket.cost + call.cost, avgDuration: minutes / calls };
+  });
+};
+
+/**
+ * Create the data source of a workspace, reading through the query cache
+ * @param workspace Workspace to read from
+ */
+export const createWorkspaceDataSource = (workspace: Workspace): CallDataSource => {
+  return withQueryCache(createDataSource(getWorkspaceDataSourceConfig(workspace)), `workspace:${workspace.id}`);
+};
+
+/**
+ * Point the service functions at a workspace's project
+ * Rebinds the data source and the settings store, cached results of other
+ * workspaces are kept for switching back
+ * @param workspace Workspace to read from
+ */
+export const selectWorkspace = (workspace: Workspace) => {
+  setDataSource(createDataSource(getWorkspaceDataSourceConfig(workspace)), `workspace:${workspace.id}`);
+  setSettingsStore(workspace.id === DEFAULT_WORKSPACE_ID ? null : createWorkspaceSettingsStore(workspace));
+};
+
+/**
+ * Get the time of the earliest call, when the data source knows it without a query
+ */
+export const getFirstCallDate = (): Date | undefined => getDataSource().firstCallDate;
+
+/**
+ * Describe where the dashboard data currently comes from
+ */
+export const getDataSourceLabel = (): string => getDataSource().label;
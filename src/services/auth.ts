@@ -0,0 +1,265 @@
+import { AxiosInstance } from 'axios';
+import { createApiClient, isApiError } from './apiClient';
+import { getQueryCache } from './queryCache';
+import { AuthSession, AuthUser } from '../types/auth';
+
+// Access tokens are refreshed this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// localStorage key the session is kept under
+const SESSION_STORAGE_KEY = 'auth:session';
+
+/**
+ * User as returned by the GoTrue auth API
+ */
+interface GoTrueUser {
+  id: string;
+  email?: string;
+}
+
+/**
+ * Token response of the GoTrue auth API
+ */
+interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  /** Lifetime of the access token in seconds */
+  expires_in: number;
+  /** Expiry of the access token in seconds since the epoch, sent by newer GoTrue versions */
+  expires_at?: number;
+  user: GoTrueUser;
+}
+
+let authApi: AxiosInstance | null = null;
+let session: AuthSession | null | undefined;
+let refreshing: Promise<AuthSession | null> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<(session: AuthSession | null) => void>();
+
+/**
+ * Get the client for the GoTrue auth API, at VITE_SUPABASE_AUTH_URL or the
+ * project's `/auth/v1` endpoint
+ */
+const getAuthApi = (): AxiosInstance => {
+  if (!authApi) {
+    const env = import.meta.env;
+    authApi = createApiClient({
+      baseURL: env.VITE_SUPABASE_AUTH_URL || `${(env.VITE_SUPABASE_URL || '').replace(/\/$/, '')}/auth/v1`,
+      headers: {
+        'apikey': env.VITE_SUPABASE_ANON_KEY || '',
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+  return authApi;
+};
+
+const toUser = (user: GoTrueUser): AuthUser => ({ id: user.id, email: user.email || '' });
+
+const toSession = (response: TokenResponse): AuthSession => ({
+  accessToken: response.access_token,
+  refreshToken: response.refresh_token,
+  expiresAt: response.expires_at ? response.expires_at * 1000 : Date.now() + response.expires_in * 1000,
+  user: toUser(response.user)
+});
+
+/**
+ * Read the session saved by a previous page load
+ */
+const loadStoredSession = (): AuthSession | null => {
+  const saved = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!saved) {
+    return null;
+  }
+  try {
+    return JSON.parse(saved) as AuthSession;
+  } catch {
+    console.warn('Ignoring unreadable auth session');
+    return null;
+  }
+};
+
+/**
+ * Get the current session, null when signed out
+ */
+export const getSession = (): AuthSession | null => {
+  if (session === undefined) {
+    session = loadStoredSession();
+    scheduleRefresh();
+  }
+  return session;
+};
+
+/**
+ * Replace the session, saving it and telling listeners
+ */
+const setSession = (next: AuthSession | null) => {
+  const previous = getSession();
+  session = next;
+
+  // Results cached for one user must never be shown to another
+  if (previous?.user.id !== next?.user.id) {
+    getQueryCache()?.invalidate();
+  }
+
+  if (next) {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(next));
+  } else {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+  scheduleRefresh();
+  listeners.forEach(listener => listener(next));
+};
+
+/**
+ * Refresh the access token shortly before it expires
+ */
+const scheduleRefresh = () => {
+  clearTimeout(refreshTimer);
+  if (!session) {
+    return;
+  }
+  refreshTimer = setTimeout(() => {
+    refreshSession().catch(error => console.warn('Could not refresh auth session:', error));
+  }, Math.max(0, session.expiresAt - REFRESH_MARGIN_MS - Date.now()));
+};
+
+/**
+ * Exchange the refresh token for a new access token
+ * A rejected refresh token signs the user out, while network and server
+ * failures keep the session so a later refresh can succeed
+ * @returns The refreshed session, null when signed out
+ */
+export const refreshSession = (): Promise<AuthSession | null> => {
+  const current = getSession();
+  if (!current) {
+    return Promise.resolve(null);
+  }
+  if (!refreshing) {
+    refreshing = getAuthApi()
+      .post<TokenResponse>('/token', { refresh_token: current.refreshToken }, { params: { grant_type: 'refresh_token' } })
+      .then(response => {
+        setSession(toSession(response.data));
+        return session ?? null;
+      })
+      .catch(error => {
+        if (isApiError(error) && (error.status === 400 || error.status === 401)) {
+          setSession(null);
+          return null;
+        }
+        throw error;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+/**
+ * Get the signed-in user's access token, refreshing it first when it is about to expire
+ * @returns JWT to send as the bearer token, null when signed out
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+  const current = getSession();
+  if (!current) {
+    return null;
+  }
+  if (current.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+    return current.accessToken;
+  }
+  try {
+    return (await refreshSession())?.accessToken ?? null;
+  } catch {
+    // The refresh failed for now, the old token works until it expires
+    return current.expiresAt > Date.now() ? current.accessToken : null;
+  }
+};
+
+/**
+ * Restore the session when the app starts
+ * Picks up the tokens a magic link redirects back with in the URL fragment,
+ * otherwise the session saved by a previous page load
+ * @returns The restored session, null when signed out
+ */
+export const restoreSession = async (): Promise<AuthSession | null> => {
+  const fragment = new URLSearchParams(window.location.hash.slice(1));
+  const accessToken = fragment.get('access_token');
+  const refreshToken = fragment.get('refresh_token');
+
+  if (fragment.has('error_description')) {
+    console.warn('Sign-in link failed:', fragment.get('error_description'));
+  }
+  if (fragment.has('access_token') || fragment.has('error_description')) {
+    // Keep the tokens out of the address bar and history
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+
+  if (accessToken && refreshToken) {
+    const response = await getAuthApi().get<GoTrueUser>('/user', {
+      headers: { 'Authorization': `Bearer ${accessToken}` }
+    });
+    setSession({
+      accessToken,
+      refreshToken,
+      expiresAt: Date.now() + Number(fragment.get('expires_in') || 3600) * 1000,
+      user: toUser(response.data)
+    });
+    return getSession();
+  }
+
+  await getAccessToken();
+  return getSession();
+};
+
+/**
+ * Sign in with email and password
+ * @returns The new session
+ */
+export const signInWithPassword = async (email: string, password: string): Promise<AuthSession> => {
+  const response = await getAuthApi().post<TokenResponse>('/token', { email, password }, {
+    params: { grant_type: 'password' }
+  });
+  const next = toSession(response.data);
+  setSession(next);
+  return next;
+};
+
+/**
+ * Email a magic sign-in link to an existing user
+ * @param email User's email address
+ * @param redirectTo URL the link returns to with the session in its fragment
+ */
+export const sendMagicLink = async (email: string, redirectTo: string): Promise<void> => {
+  await getAuthApi().post('/otp', { email, create_user: false }, {
+    params: { redirect_to: redirectTo }
+  });
+};
+
+/**
+ * Sign out, revoking the refresh token on the server when it can be reached
+ */
+export const signOut = async (): Promise<void> => {
+  const current = getSession();
+  if (current) {
+    try {
+      await getAuthApi().post('/logout', {}, {
+        headers: { 'Authorization': `Bearer ${current.accessToken}` }
+      });
+    } catch (error) {
+      console.warn('Could not revoke the session on the server:', error);
+    }
+  }
+  setSession(null);
+};
+
+/**
+ * Listen for sign-ins, sign-outs and token refreshes
+ * @returns Function removing the listener
+ */
+export const subscribeToAuthChanges = (listener: (session: AuthSession | null) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,94 @@
+import { CallDataSource } from '../../types/dataSource';
+import { QueryCache } from '../queryCache';
+
+// Dates in cache keys are rounded down to this, so ranges ending "now" share
+// a cached result for a while instead of missing the cache on every request
+const KEY_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Serialize query arguments into a stable cache key part
+ * Object keys are sorted, dates rounded and abort signals left out
+ */
+const serializeArgument = (value: unknown): string => {
+  if (value instanceof Date) {
+    return String(Math.floor(value.getTime() / KEY_RESOLUTION_MS) * KEY_RESOLUTION_MS);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(serializeArgument).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => key !== 'signal' && (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${key}:${serializeArgument((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+};
+
+/**
+ * Get the prefix every cache key of a data source starts with
+ * @param namespace Namespace the data source's results are cached under
+ */
+export const getCacheKeyPrefix = (namespace: string): string => `${namespace}|`;
+
+/**
+ * Wrap a data source so its reads go through a query cache
+ * Identical reads in flight at the same time share one request, and repeated
+ * reads are answered from the cache while it refreshes in the background
+ * @param dataSource Data source to wrap
+ * @param cache Query cache holding the results
+ * @param namespace Prefix keeping this source's results apart from other sources in the same cache
+ * @returns Data source with the same capabilities as the wrapped one
+ */
+export const createCachedDataSource = (
+  dataSource: CallDataSource,
+  cache: QueryCache,
+  namespace = dataSource.label
+): CallDataSource => {
+  const getKey = (method: string, args: unknown[]) => `${getCacheKeyPrefix(namespace)}${method}|${args.map(serializeArgument).join('|')}`;
+
+  return {
+    label: dataSource.label,
+    firstCallDate: dataSource.firstCallDate,
+
+    listCalls: (query) => cache.query(
+      getKey('listCalls', [query]),
+      signal => dataSource.listCalls({ ...query, signal }),
+      query.signal
+    ),
+
+    pageCalls: (query) => cache.query(
+      getKey('pageCalls', [query]),
+      signal => dataSource.pageCalls({ ...query, signal }),
+      query.signal
+    ),
+
+    getCall: (id, signal) => cache.query(
+      getKey('getCall', [id]),
+      sharedSignal => dataSource.getCall(id, sharedSignal),
+      signal
+    ),
+
+    aggregateCalls: dataSource.aggregateCalls && ((query, granularity, timeZone) => cache.query(
+      getKey('aggregateCalls', [query, granularity, timeZone]),
+      signal => dataSource.aggregateCalls!({ ...query, signal }, granularity, timeZone),
+      query.signal
+    )),
+
+    aggregateCallsByAssistant: dataSource.aggregateCallsByAssistant && ((query, granularity, timeZone) => cache.query(
+      getKey('aggregateCallsByAssistant', [query, granularity, timeZone]),
+      signal => dataSource.aggregateCallsByAssistant!({ ...query, signal }, granularity, timeZone),
+      query.signal
+    )),
+
+    aggregateCallsByEndReason: dataSource.aggregateCallsByEndReason && ((query, granularity, timeZone) => cache.query(
+      getKey('aggregateCallsByEndReason', [query, granularity, timeZone]),
+      signal => dataSource.aggregateCallsByEndReason!({ ...query, signal }, granularity, timeZone),
+      query.signal
+    )),
+
+    // Live updates are never cached
+    subscribeToCalls: dataSource.subscribeToCalls
+  };
+};
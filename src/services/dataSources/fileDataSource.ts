@@ -0,0 +1,63 @@
+import { createApiClient } from '../apiClient';
+import { CallRecord } from '../../types/api';
+import { CallDataSource } from '../../types/dataSource';
+import { parseCsv } from '../../utils/csv';
+import { createMemoryDataSource } from './memoryDataSource';
+
+/**
+ * Convert a parsed CSV row into a call record, coercing numeric columns
+ */
+const csvRowToRecord = (row: Record<string, string>): CallRecord => {
+  const record: Record<string, unknown> = { ...row };
+  record.duration = parseFloat(row.duration) || 0;
+  record.cost = parseFloat(row.cost) || 0;
+  return record as unknown as CallRecord;
+};
+
+/**
+ * Load call records from a JSON array or CSV file
+ */
+const loadRecords = async (url: string): Promise<CallRecord[]> => {
+  const response = await createApiClient().get<string>(url, { responseType: 'text' });
+  const text = response.data;
+  const contentType = String(response.headers['content-type'] || '');
+
+  const isCsv = contentType.includes('csv') || /\.csv(\?|$)/i.test(url);
+  if (isCsv) {
+    return parseCsv(text).map(csvRowToRecord);
+  }
+
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Expected an array of call records in ${url}`);
+  }
+  return parsed as CallRecord[];
+};
+
+/**
+ * Create a data source reading call records from a static JSON or CSV file
+ * The file is downloaded once and then queried in memory
+ * @param url URL of the file, e.g. a data dump served next to the app
+ */
+export const createFileDataSource = (url: string): CallDataSource => {
+  const fileName = url.split('/').pop() || url;
+  let source: Promise<CallDataSource> | null = null;
+
+  const getSource = () => {
+    if (!source) {
+      source = loadRecords(url).then(records => createMemoryDataSource(records));
+      // Allow a retry if loading failed
+      source.catch(() => {
+        source = null;
+      });
+    }
+    return source;
+  };
+
+  return {
+    label: `file ${fileName}`,
+    listCalls: async (query) => (await getSource()).listCalls(query),
+    pageCalls: async (query) => (await getSource()).pageCalls(query),
+    getCall: async (id) => (await getSource()).getCall(id)
+  };
+};
@@ -0,0 +1,136 @@
+import { CallDataSource, DataSourceConfig } from '../../types/dataSource';
+import { createSupabaseDataSource } from './supabaseDataSource';
+import { createFileDataSource } from './fileDataSource';
+import { createMemoryDataSource } from './memoryDataSource';
+import { createMockDataSource } from './mockDataSource';
+import { createVapiDataSource } from './vapiDataSource';
+import { createCachedDataSource, getCacheKeyPrefix } from './cachedDataSource';
+import { getQueryCache } from '../queryCache';
+import { getAccessToken } from '../auth';
+
+export {
+  createSupabaseDataSource,
+  createFileDataSource,
+  createMemoryDataSource,
+  createMockDataSource,
+  createVapiDataSource,
+  createCachedDataSource
+};
+
+/**
+ * Create a data source from its configuration
+ */
+export const createDataSource = (config: DataSourceConfig): CallDataSource => {
+  switch (config.type) {
+    case 'supabase':
+      return createSupabaseDataSource(config.url, config.key, config.table, config.analyticsFunction, config.realtimeUrl, config.getAccessToken);
+    case 'vapi':
+      return createVapiDataSource(config.url, config.key);
+    case 'file':
+      return createFileDataSource(config.url);
+    case 'memory':
+      return createMemoryDataSource(config.records);
+    case 'mock':
+      return createMockDataSource();
+  }
+};
+
+/**
+ * Read the data source configuration from the environment
+ * VITE_DATA_SOURCE picks the source explicitly, otherwise the mock flag
+ * decides between mock data and Supabase
+ */
+export const getDataSourceConfigFromEnv = (): DataSourceConfig => {
+  const env = import.meta.env;
+  const type = env.VITE_DATA_SOURCE || (env.VITE_ENABLE_MOCK_DATA === 'true' ? 'mock' : 'supabase');
+
+  switch (type) {
+    case 'vapi':
+      return {
+        type: 'vapi',
+        url: env.VITE_API_URL || 'https://api.vapi.ai',
+        key: env.VITE_VAPI_API_KEY || ''
+      };
+    case 'file':
+      return { type: 'file', url: env.VITE_DATA_FILE_URL || '/calls.json' };
+    case 'memory':
+      return { type: 'memory', records: [] };
+    case 'mock':
+      return { type: 'mock' };
+    case 'supabase':
+    default:
+      return {
+        type: 'supabase',
+        url: env.VITE_SUPABASE_URL || '',
+        key: env.VITE_SUPABASE_ANON_KEY || '',
+        table: env.VITE_SUPABASE_CALLS_TABLE || 'calls',
+        analyticsFunction: env.VITE_SUPABASE_ANALYTICS_FUNCTION ?? 'call_analytics',
+        realtimeUrl: env.VITE_SUPABASE_REALTIME_URL || undefined,
+        getAccessToken
+      };
+  }
+};
+
+/**
+ * Check whether users have to sign in before data is read
+ * VITE_AUTH_ENABLED decides, by default signing in is required for Supabase data
+ */
+export const isSignInRequired = (): boolean => {
+  const setting = import.meta.env.VITE_AUTH_ENABLED;
+  return setting ? setting === 'true' : getDataSourceConfigFromEnv().type === 'supabase';
+};
+
+let activeDataSource: CallDataSource | null = null;
+let activeUncachedDataSource: CallDataSource | null = null;
+let activeNamespace = '';
+
+/**
+ * Route a data source's reads through the query cache, unless caching is off
+ * @param dataSource Data source to wrap
+ * @param namespace Keeps the source's cached results apart from other sources, its label by default
+ */
+export const withQueryCache = (dataSource: CallDataSource, namespace?: string): CallDataSource => {
+  const cache = getQueryCache();
+  return cache ? createCachedDataSource(dataSource, cache, namespace) : dataSource;
+};
+
+/**
+ * Get the data source the service functions read from
+ */
+export const getDataSource = (): CallDataSource => {
+  if (!activeDataSource) {
+    setDataSource(createDataSource(getDataSourceConfigFromEnv()));
+  }
+  return activeDataSource!;
+};
+
+/**
+ * Get the active data source without the query cache, for reads too large
+ * to keep in it such as exports
+ */
+export const getUncachedDataSource = (): CallDataSource => {
+  if (!activeUncachedDataSource) {
+    getDataSource();
+  }
+  return activeUncachedDataSource!;
+};
+
+/**
+ * Replace the active data source
+ * @param dataSource Data source to read from
+ * @param namespace Keeps the source's cached results apart from other sources, its label by default
+ */
+export const setDataSource = (dataSource: CallDataSource, namespace = dataSource.label) => {
+  activeUncachedDataSource = dataSource;
+  activeNamespace = namespace;
+  activeDataSource = withQueryCache(dataSource, namespace);
+};
+
+/**
+ * Drop the active data source's cached results, keeping those of other
+ * sources such as other workspaces
+ */
+export const invalidateDataSourceCache = () => {
+  getDataSource();
+  getQueryCache()?.invalidate(getCacheKeyPrefix(activeNamespace));
+};
@@ -0,0 +1,70 @@
+import { CallRecord, CallSort } from '../../types/api';
+import { CallDataSource, CallPageQuery, CallQuery } from '../../types/dataSource';
+import { categorizeEndReason } from '../../utils/endReasons';
+
+// Record fields backing each sortable call list field
+const SORT_KEYS: Record<CallSort['field'], 'created_at' | 'duration' | 'cost'> = {
+  timestamp: 'created_at',
+  duration: 'duration',
+  cost: 'cost'
+};
+
+/**
+ * Keep only the records that match the query's date range and filters
+ */
+export const filterCalls = (records: CallRecord[], query: CallQuery): CallRecord[] => {
+  const startTime = query.startDate?.getTime() ?? -Infinity;
+  const endTime = query.endDate?.getTime() ?? Infinity;
+  const assistants = query.assistants?.length ? new Set(query.assistants) : null;
+  const categories = query.endReasonCategories?.length ? new Set(query.endReasonCategories) : null;
+  return records.filter(record => {
+    const time = new Date(record.created_at).getTime();
+    if (time < startTime || time > endTime) {
+      return false;
+    }
+    if (categories && !categories.has(categorizeEndReason(record.end_reason || 'unknown'))) {
+      return false;
+    }
+    return !assistants || assistants.has(record["Assistant"] || '');
+  });
+};
+
+/**
+ * Sort call records in memory the same way the database would
+ */
+export const sortCalls = (records: CallRecord[], sort: CallSort): CallRecord[] => {
+  const key = SORT_KEYS[sort.field];
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...records].sort((a, b) => {
+    const order = key === 'created_at'
+      ? (new Date(a.created_at).getTime() - new Date(b.created_at).getTime()) * direction
+      : ((a[key] || 0) - (b[key] || 0)) * direction;
+    // Ties are broken by id, as the Supabase source orders them
+    return order || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  });
+};
+
+/**
+ * Slice one page out of an in-memory set of records
+ */
+export const pageCalls = (records: CallRecord[], query: CallPageQuery) => {
+  const matching = sortCalls(filterCalls(records, query), query.sort);
+  return {
+    records: matching.slice(query.offset, query.offset + query.limit),
+    total: matching.length
+  };
+};
+
+/**
+ * Create a data source serving a fixed set of call records from memory
+ * @param records Call records to serve
+ * @param label Description shown in the UI
+ */
+export const createMemoryDataSource = (records: CallRecord[], label = 'in-memory data'): CallDataSource => {
+  return {
+    label,
+    listCalls: async (query) => sortCalls(filterCalls(records, query), { field: 'timestamp', direction: 'asc' }),
+    pageCalls: async (query) => pageCalls(records, query),
+    getCall: async (id) => records.find(record => record.id === id) || null
+  };
+};
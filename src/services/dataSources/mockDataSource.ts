@@ -0,0 +1,19 @@
+import { CallDataSource } from '../../types/dataSource';
+import { generateMockCalls, findMockCall, MOCK_FIRST_CALL_DATE } from '../mockData';
+import { filterCalls, pageCalls } from './memoryDataSource';
+
+/**
+ * Create a data source serving seeded mock calls for any date range
+ * Calls start on MOCK_FIRST_CALL_DATE, earlier ranges are empty
+ */
+export const createMockDataSource = (): CallDataSource => {
+  return {
+    label: 'generated mock data',
+    firstCallDate: MOCK_FIRST_CALL_DATE,
+    listCalls: async (query) =>
+      filterCalls(generateMockCalls(query.startDate || new Date(0), query.endDate || new Date()), query),
+    pageCalls: async (query) =>
+      pageCalls(generateMockCalls(query.startDate || new Date(0), query.endDate || new Date()), query),
+    getCall: async (id) => findMockCall(id)
+  };
+};
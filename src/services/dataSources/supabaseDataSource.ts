@@ -0,0 +1,262 @@
+import { AxiosResponse } from 'axios';
+import { createApiClient, isApiError } from '../apiClient';
+import { AssistantAnalytics, CallAnalytics, CallRecord, CallSortField, EndReasonAnalytics, Granularity } from '../../types/api';
+import { CallDataSource, CallQuery } from '../../types/dataSource';
+import { getRealtimeUrl, subscribeToInserts } from '../realtime';
+
+// Database columns backing each sortable call list field
+const SORT_COLUMNS: Record<CallSortField, string> = {
+  timestamp: 'created_at',
+  duration: 'duration',
+  cost: 'cost'
+};
+
+// Extra dimension analytics rows can be split by
+type AnalyticsGroupBy = 'assistant' | 'end_reason' | null;
+
+// Rows requested per round-trip when reading a whole range
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Row returned by the analytics Postgres function
+ */
+interface AnalyticsRow {
+  date: string;
+  assistant: string | null;
+  end_reason: string | null;
+  calls: number;
+  minutes: number;
+  cost: number;
+}
+
+/**
+ * Quote a value for a PostgREST `in` list
+ */
+const quoteListValue = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Build PostgREST filter parameters for a call query
+ */
+const buildFilters = (query: CallQuery): Record<string, string> => {
+  const conditions: string[] = [];
+  if (query.startDate) {
+    conditions.push(`created_at.gte.${query.startDate.toISOString()}`);
+  }
+  if (query.endDate) {
+    conditions.push(`created_at.lte.${query.endDate.toISOString()}`);
+  }
+  const filters: Record<string, string> = conditions.length > 0 ? { and: `(${conditions.join(',')})` } : {};
+  if (query.assistants?.length) {
+    filters['Assistant'] = `in.(${query.assistants.map(quoteListValue).join(',')})`;
+  }
+  if (query.endReasonCategories?.length) {
+    // Generated column, see the end_reason_category migration
+    filters['end_reason_category'] = `in.(${query.endReasonCategories.map(quoteListValue).join(',')})`;
+  }
+  return filters;
+};
+
+/**
+ * Convert a row from the analytics function into an analytics bucket
+ */
+const rowToAnalytics = (row: AnalyticsRow): CallAnalytics => {
+  const calls = Number(row.calls);
+  const minutes = Number(row.minutes);
+  return {
+    date: new Date(row.date).toISOString(),
+    calls,
+    minutes,
+    cost: Number(row.cost),
+    avgDuration: calls > 0 ? minutes / calls : 0
+  };
+};
+
+/**
+ * Read the total row count from a PostgREST Content-Range header (e.g. `0-999/4521`)
+ */
+const parseContentRangeTotal = (header: string | undefined): number | null => {
+  const total = header?.split('/')[1];
+  return total && total !== '*' ? parseInt(total, 10) : null;
+};
+
+/**
+ * Read every row a PostgREST request returns
+ * PostgREST caps each response at its max-rows setting (1000 on Supabase) and
+ * cuts longer results short without an error, so the rows are requested in
+ * pages until the Content-Range total has been read
+ * @param request Sends the request with the given Range headers
+ * @returns Rows of every page, in the order the request sorts them
+ */
+const readAllRows = async <T>(request: (headers: Record<string, string>) => Promise<AxiosResponse<T[]>>): Promise<T[]> => {
+  const rows: T[] = [];
+  let total: number | null = null;
+
+  for (;;) {
+    const offset = rows.length;
+    const response = await request({
+      'Range': `${offset}-${offset + LIST_PAGE_SIZE - 1}`,
+      'Range-Unit': 'items',
+      ...(total === null ? { 'Prefer': 'count=exact' } : {})
+    });
+
+    const page = response.data || [];
+    rows.push(...page);
+
+    if (total === null) {
+      total = parseContentRangeTotal(response.headers['content-range']);
+    }
+    if (page.length === 0 || total === null || rows.length >= total) {
+      return rows;
+    }
+  }
+};
+
+/**
+ * Create a data source reading calls from a Supabase table through PostgREST
+ * @param url Supabase project URL
+ * @param key Supabase API key
+ * @param table Table holding call records
+ * @param analyticsFunction Postgres function aggregating calls per bucket, empty to always aggregate in the browser
+ * @param realtimeUrl Realtime websocket URL, e.g. a local stand-in, derived from the project URL when omitted
+ * @param getAccessToken Resolves the signed-in user's JWT so row level security applies, the API key is sent without one
+ */
+export const createSupabaseDataSource = (
+  url: string,
+  key: string,
+  table = 'calls',
+  analyticsFunction = 'call_analytics',
+  realtimeUrl = getRealtimeUrl(url),
+  getAccessToken?: () => Promise<string | null>
+): CallDataSource => {
+  // Create an axios instance for Supabase
+  const supabaseApi = createApiClient({
+    baseURL: url,
+    headers: {
+      'apikey': key,
+      'Authorization': `Bearer ${key}`,
+      'Content-Type': 'application/json'
+    }
+  }, { getAccessToken });
+
+  const path = `/rest/v1/${table}`;
+
+  // Set once the analytics function turns out not to exist in this project
+  let analyticsFunctionMissing = !analyticsFunction;
+
+  /**
+   * Run the analytics Postgres function, resolving to null when it is unavailable
+   */
+  const callAnalyticsFunction = async (
+    query: CallQuery,
+    granularity: Granularity,
+    timeZone: string,
+    groupBy: AnalyticsGroupBy
+  ): Promise<AnalyticsRow[] | null> => {
+    if (analyticsFunctionMissing) {
+      return null;
+    }
+
+    const params = {
+      start_date: query.startDate?.toISOString() ?? null,
+      end_date: query.endDate?.toISOString() ?? null,
+      bucket: granularity,
+      time_zone: timeZone,
+      assistants: query.assistants?.length ? query.assistants : null,
+      end_reason_categories: query.endReasonCategories?.length ? query.endReasonCategories : null,
+      group_by_assistant: groupBy === 'assistant',
+      group_by_end_reason: groupBy === 'end_reason'
+    };
+
+    try {
+      // Rows come sorted by bucket, assistant and end reason, which is unique
+      // per row, so pages neither overlap nor skip rows
+      return await readAllRows(headers => supabaseApi.post<AnalyticsRow[]>(`/rest/v1/rpc/${analyticsFunction}`, params, {
+        headers,
+        signal: query.signal
+      }));
+    } catch (error) {
+      // PostgREST answers 404 when the function has not been created
+      if (isApiError(error) && error.status === 404) {
+        console.warn(`Postgres function ${analyticsFunction} not found, aggregating in the browser`);
+        analyticsFunctionMissing = true;
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    label: 'Supabase database',
+
+    listCalls: (query) => readAllRows(headers => supabaseApi.get<CallRecord[]>(path, {
+      params: {
+        select: '*',
+        ...buildFilters(query),
+        order: 'created_at.asc,id.asc'
+      },
+      headers,
+      signal: query.signal
+    })),
+
+    pageCalls: async ({ offset, limit, sort, ...query }) => {
+      const params = {
+        select: '*',
+        ...buildFilters(query),
+        // Ties are broken by id, so paging by offset neither repeats nor skips rows
+        order: `${SORT_COLUMNS[sort.field]}.${sort.direction},id.asc`
+      };
+
+      // One round-trip returns the page and, in Content-Range, the total count
+      const response = await supabaseApi.get(path, {
+        params,
+        headers: {
+          'Range': `${offset}-${offset + limit - 1}`,
+          'Range-Unit': 'items',
+          'Prefer': 'count=exact'
+        },
+        signal: query.signal
+      });
+
+      const records: CallRecord[] = response.data || [];
+      const total = parseContentRangeTotal(response.headers['content-range']) ?? offset + records.length;
+
+      return { records, total };
+    },
+
+    getCall: async (id, signal) => {
+      const response = await supabaseApi.get(path, {
+        params: {
+          select: '*',
+          id: `eq.${id}`,
+          limit: 1
+        },
+        signal
+      });
+      const records: CallRecord[] = response.data || [];
+      return records[0] || null;
+    },
+
+    aggregateCalls: async (query, granularity, timeZone) => {
+      const rows = await callAnalyticsFunction(query, granularity, timeZone, null);
+      return rows && rows.map(rowToAnalytics);
+    },
+
+    aggregateCallsByAssistant: async (query, granularity, timeZone) => {
+      const rows = await callAnalyticsFunction(query, granularity, timeZone, 'assistant');
+      return rows && rows.map((row): AssistantAnalytics => ({
+        ...rowToAnalytics(row),
+        assistant: row.assistant || ''
+      }));
+    },
+
+    aggregateCallsByEndReason: async (query, granularity, timeZone) => {
+      const rows = await callAnalyticsFunction(query, granularity, timeZone, 'end_reason');
+      return rows && rows.map((row): EndReasonAnalytics => ({
+        ...rowToAnalytics(row),
+        endReason: row.end_reason || 'unknown'
+      }));
+    },
+
+    subscribeToCalls: (handlers) => subscribeToInserts({ url: realtimeUrl, key, table, getAccessToken }, handlers)
+  };
+};
@@ -0,0 +1,184 @@
+import { createApiClient, isApiError } from '../apiClient';
+import { CallMessage, CallRecord } from '../../types/api';
+import { CallDataSource, CallQuery } from '../../types/dataSource';
+import { filterCalls, pageCalls } from './memoryDataSource';
+
+// Maximum number of calls the Vapi list endpoint returns per request
+const VAPI_PAGE_LIMIT = 1000;
+
+// How long the calls of the last range listed are reused, e.g. while paging through them
+const LISTING_TTL_MS = 30 * 1000;
+
+/**
+ * Call object as returned by the Vapi API (only the fields we use)
+ */
+interface VapiCall {
+  id: string;
+  createdAt: string;
+  startedAt?: string;
+  endedAt?: string;
+  cost?: number;
+  endedReason?: string;
+  status?: string;
+  assistantId?: string;
+  assistant?: {
+    name?: string;
+  };
+  customer?: {
+    number?: string;
+  };
+  transcript?: string;
+  messages?: CallMessage[];
+  recordingUrl?: string;
+  artifact?: {
+    transcript?: string;
+    messages?: CallMessage[];
+    recordingUrl?: string;
+  };
+}
+
+/**
+ * Map a Vapi call object to a call record
+ */
+export const vapiCallToRecord = (call: VapiCall): CallRecord => {
+  // Calls that never connected have no start or end time. Rounded to whole
+  // seconds like the durations of the other sources
+  const duration = call.startedAt && call.endedAt
+    ? Math.max(0, Math.round((new Date(call.endedAt).getTime() - new Date(call.startedAt).getTime()) / 1000))
+    : 0;
+
+  return {
+    id: call.id,
+    // The list endpoint filters and pages on createdAt, so calls are placed by
+    // it too and stay inside the range they were listed for
+    created_at: call.createdAt,
+    duration,
+    cost: call.cost || 0,
+    end_reason: call.endedReason || call.status || 'unknown',
+    "Customer Phone Number": call.customer?.number,
+    "Assistant": call.assistant?.name || call.assistantId,
+    transcript: call.artifact?.transcript ?? call.transcript,
+    messages: call.artifact?.messages ?? call.messages,
+    recording_url: call.artifact?.recordingUrl ?? call.recordingUrl
+  };
+};
+
+/**
+ * Wait for a promise, rejecting early when the signal aborts
+ */
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+};
+
+/**
+ * Create a data source listing calls directly from the Vapi API
+ * @param url Vapi API base URL, e.g. https://api.vapi.ai or a local stub server
+ * @param key Vapi API key
+ */
+export const createVapiDataSource = (url: string, key: string): CallDataSource => {
+  const vapiApi = createApiClient({
+    baseURL: url,
+    headers: {
+      'Authorization': `Bearer ${key}`,
+      'Content-Type': 'application/json'
+    }
+  });
+
+  /**
+   * Read every call in the range, newest first
+   * Vapi has no offset paging, so each request continues from the oldest
+   * createdAt seen so far until a short page is returned. The bound is
+   * inclusive so calls sharing the boundary time aren't skipped, and calls
+   * returned twice are dropped by id
+   */
+  const listAll = async (startDate?: Date, endDate?: Date): Promise<VapiCall[]> => {
+    const calls = new Map<string, VapiCall>();
+    let cursor = endDate?.toISOString();
+
+    for (;;) {
+      const response = await vapiApi.get<VapiCall[]>('/call', {
+        params: {
+          limit: VAPI_PAGE_LIMIT,
+          createdAtGe: startDate?.toISOString(),
+          createdAtLe: cursor
+        }
+      });
+
+      const page = response.data || [];
+      const seenBefore = calls.size;
+      page.forEach(call => calls.set(call.id, call));
+
+      // A page with no new calls means a full page shares the boundary time, so nothing older can be reached
+      if (page.length < VAPI_PAGE_LIMIT || calls.size === seenBefore) {
+        return [...calls.values()];
+      }
+      cursor = page.reduce(
+        (oldest, call) => (call.createdAt < oldest ? call.createdAt : oldest),
+        page[0].createdAt
+      );
+    }
+  };
+
+  // Calls of the last range listed. Filters and pages are applied to it in
+  // memory, so paging through a range or exporting it downloads it only once
+  let listing: { key: string; expiresAt: number; records: Promise<CallRecord[]> } | null = null;
+
+  /**
+   * Read every call in the query's range, reusing the last listing of the same range
+   * The listing is shared, so a caller aborting stops waiting for it without cancelling it
+   */
+  const listRange = (query: CallQuery): Promise<CallRecord[]> => {
+    const key = `${query.startDate?.toISOString()}|${query.endDate?.toISOString()}`;
+    if (!listing || listing.key !== key || listing.expiresAt < Date.now()) {
+      const current = {
+        key,
+        expiresAt: Date.now() + LISTING_TTL_MS,
+        records: listAll(query.startDate, query.endDate).then(calls => calls.map(vapiCallToRecord))
+      };
+      listing = current;
+      // Failed listings are tried again on the next read
+      current.records.catch(() => {
+        if (listing === current) {
+          listing = null;
+        }
+      });
+    }
+    return untilAborted(listing.records, query.signal);
+  };
+
+  return {
+    label: 'Vapi API',
+
+    listCalls: async (query) => {
+      const records = await listRange(query);
+      // Vapi filters by date only, assistant and end reason filters are applied here
+      return filterCalls(records, query)
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    },
+
+    pageCalls: async (query) => pageCalls(await listRange(query), query),
+
+    getCall: async (id, signal) => {
+      try {
+        const response = await vapiApi.get<VapiCall>(`/call/${encodeURIComponent(id)}`, { signal });
+        return vapiCallToRecord(response.data);
+      } catch (error) {
+        if (isApiError(error) && error.status === 404) {
+          return null;
+        }
+        throw error;
+      }
+    }
+  };
+};
@@ -0,0 +1,260 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import { CallAnalytics, CallDetail, CallFilters, Granularity } from '../types/api';
+import { fetchCallDetails } from './apiService';
+import { escapeFormula, toCsv } from '../utils/csv';
+import { endReasonCategoryLabels } from '../utils/endReasons';
+
+// Calls requested per page when exporting the call list
+const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * File formats data can be exported as
+ */
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+/**
+ * What an export covers, written into the exported file
+ */
+export interface ExportContext {
+  /** Start of the exported range */
+  startDate: Date;
+  /** End of the exported range */
+  endDate: Date;
+  /** IANA timezone buckets and dates are shown in */
+  timeZone: string;
+  /** Bucket size of exported analytics */
+  granularity?: Granularity;
+  /** Filters applied to the exported data */
+  filters: CallFilters;
+}
+
+type Cell = string | number | null | undefined;
+
+/**
+ * Export file written a page of rows at a time
+ */
+interface ExportWriter {
+  /** Add rows to the file, in the order of its columns */
+  addRows: (rows: Cell[][]) => void;
+  /** Finish the file and download it */
+  save: (fileName: string) => Promise<void>;
+}
+
+const ANALYTICS_COLUMNS = ['Bucket Start', 'Calls', 'Minutes', 'Cost', 'Avg Duration (min)'];
+
+const CALL_COLUMNS = [
+  'ID',
+  'Time',
+  'Duration (sec)',
+  'Cost',
+  'End Reason',
+  'End Reason Category',
+  'Assistant',
+  'Customer Number',
+  'Recording URL'
+];
+
+const analyticsToRow = (item: CallAnalytics): Cell[] => [
+  item.date,
+  item.calls,
+  Number(item.minutes.toFixed(2)),
+  Number(item.cost.toFixed(4)),
+  Number(item.avgDuration.toFixed(2))
+];
+
+const callToRow = (call: CallDetail): Cell[] => [
+  call.id,
+  call.timestamp,
+  call.duration,
+  call.cost,
+  call.endReason,
+  call.endReasonCategory,
+  call.assistant,
+  call.customerNumber,
+  call.recordingUrl
+];
+
+/**
+ * Describe the export's range and filters, as key, label and value
+ */
+const describeContext = (context: ExportContext): [string, string, string][] => {
+  const entries: [string, string, string][] = [
+    ['exportedAt', 'Exported At', new Date().toISOString()],
+    ['startDate', 'Range Start', context.startDate.toISOString()],
+    ['endDate', 'Range End', context.endDate.toISOString()],
+    ['timeZone', 'Timezone', context.timeZone]
+  ];
+  if (context.granularity) {
+    entries.push(['granularity', 'Grouped By', context.granularity]);
+  }
+  entries.push([
+    'assistants',
+    'Assistants',
+    context.filters.assistants?.length ? context.filters.assistants.join('; ') : 'All'
+  ]);
+  entries.push([
+    'endReasonCategories',
+    'End Reasons',
+    context.filters.endReasonCategories?.length
+      ? context.filters.endReasonCategories.map(category => endReasonCategoryLabels[category]).join('; ')
+      : 'All'
+  ]);
+  return entries;
+};
+
+/**
+ * Build a download file name like `call-analytics_2026-10-01_2026-10-19.csv`
+ */
+const getFileName = (name: string, context: ExportContext, format: ExportFormat): string => {
+  const day = (date: Date) => new Intl.DateTimeFormat('en-CA', { timeZone: context.timeZone }).format(date);
+  return `${name}_${day(context.startDate)}_${day(context.endDate)}.${format}`;
+};
+
+/**
+ * Save a blob through a temporary download link
+ */
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Create a writer for an export file in the requested format
+ * CSV files start with `#` comment lines describing the export, JSON files
+ * carry them under `metadata` and XLSX files get a separate Metadata sheet.
+ * CSV and JSON rows are serialized as they are added, so a large export is
+ * only held as text chunks and never as one string
+ */
+const createExportWriter = (
+  title: string,
+  columns: string[],
+  context: ExportContext,
+  format: ExportFormat
+): ExportWriter => {
+  const metadata = describeContext(context);
+  const chunks: string[] = [];
+  // XLSX files are written in one go, so their rows are kept until saved
+  const sheetRows: Cell[][] = [];
+  let rowCount = 0;
+
+  if (format === 'csv') {
+    chunks.push(toCsv([[`# ${title}`], ...metadata.map(([, label, value]) => [`# ${label}: ${value}`]), [], columns]));
+  } else if (format === 'json') {
+    chunks.push(`{"metadata":${JSON.stringify({ title, ...Object.fromEntries(metadata.map(([key, , value]) => [key, value])) })},"data":[`);
+  }
+
+  return {
+    addRows: (rows) => {
+      if (format === 'csv') {
+        chunks.push(toCsv(rows.map(row => row.map(escapeFormula))));
+      } else if (format === 'json') {
+        chunks.push(rows.map((row, index) => {
+          const separator = rowCount + index === 0 ? '' : ',';
+          return `${separator}\n${JSON.stringify(Object.fromEntries(columns.map((column, i) => [column, row[i] ?? null])))}`;
+        }).join(''));
+      } else {
+        // XLSX string cells are never evaluated as formulas, so they are written as they are
+        rows.forEach(row => sheetRows.push(row.map(cell => cell ?? null)));
+      }
+      rowCount += rows.length;
+    },
+
+    save: async (fileName) => {
+      if (format === 'csv') {
+        downloadBlob(new Blob(chunks, { type: 'text/csv;charset=utf-8' }), fileName);
+        return;
+      }
+
+      if (format === 'json') {
+        downloadBlob(new Blob([...chunks, '\n]}\n'], { type: 'application/json' }), fileName);
+        return;
+      }
+
+      const blob = await writeXlsxFile([
+        {
+          sheet: 'Data',
+          data: [columns.map(column => ({ value: column, fontWeight: 'bold' as const })), ...sheetRows],
+          columns: columns.map(() => ({ width: 20 }))
+        },
+        {
+          sheet: 'Metadata',
+          data: [['Export', title], ...metadata.map(([, label, value]) => [label, value])],
+          columns: [{ width: 16 }, { width: 40 }]
+        }
+      ]).toBlob();
+      downloadBlob(blob, fileName);
+    }
+  };
+};
+
+/**
+ * Export an analytics series as it is shown on the dashboard
+ * @param analytics Analytics buckets
+ * @param format File format
+ * @param context Range and filters the series was fetched for
+ */
+export const exportAnalytics = async (
+  analytics: CallAnalytics[],
+  format: ExportFormat,
+  context: ExportContext
+): Promise<void> => {
+  try {
+    const writer = createExportWriter('Call analytics', ANALYTICS_COLUMNS, context, format);
+    writer.addRows(analytics.map(analyticsToRow));
+    await writer.save(getFileName('call-analytics', context, format));
+  } catch (error) {
+    console.error('Error exporting analytics:', error);
+    throw error;
+  }
+};
+
+/**
+ * Export every call in a range, reading the call list page by page
+ * @param format File format
+ * @param context Range and filters to export calls for
+ * @param onProgress Called after each page with the number of calls read and the total
+ */
+export const exportCallList = async (
+  format: ExportFormat,
+  context: ExportContext,
+  onProgress?: (exported: number, total: number) => void
+): Promise<void> => {
+  try {
+    // Calls are exported individually, not in buckets
+    const writer = createExportWriter('Calls', CALL_COLUMNS, { ...context, granularity: undefined }, format);
+    let exported = 0;
+
+    for (let page = 1; ; page++) {
+      // Pages are read past the query cache, so exporting a long range
+      // neither pushes the dashboard's results out of it nor persists every page
+      const { data, total } = await fetchCallDetails(
+        page,
+        EXPORT_PAGE_SIZE,
+        context.startDate,
+        context.endDate,
+        { field: 'timestamp', direction: 'asc' },
+        context.filters,
+        undefined,
+        false
+      );
+      writer.addRows(data.map(callToRow));
+      exported += data.length;
+      onProgress?.(exported, total);
+
+      if (data.length === 0 || exported >= total) {
+        break;
+      }
+    }
+
+    await writer.save(getFileName('calls', context, format));
+  } catch (error) {
+    console.error('Error exporting calls:', error);
+    throw error;
+  }
+};
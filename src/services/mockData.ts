@@ -0,0 +1,325 @@
+import { CallMessage, CallRecord } from '../types/api';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// First day with mock calls. Fixed rather than relative to today, so the days
+// that have data don't move and any range shows the same calls on every load
+export const MOCK_FIRST_CALL_DATE = new Date(Date.UTC(2024, 0, 1));
+const MOCK_FIRST_DAY = Math.floor(MOCK_FIRST_CALL_DATE.getTime() / DAY_MS);
+
+const ASSISTANTS = [
+  'Appointment Scheduler',
+  'Customer Support',
+  'Lead Qualifier',
+  'Order Status',
+  'After Hours Receptionist'
+];
+
+// Weighted end reasons, roughly matching what production traffic looks like
+const END_REASONS: { reason: string; weight: number }[] = [
+  { reason: 'customer-ended-call', weight: 48 },
+  { reason: 'assistant-ended-call', weight: 26 },
+  { reason: 'silence-timed-out', weight: 7 },
+  { reason: 'voicemail', weight: 6 },
+  { reason: 'assistant-forwarded-call', weight: 5 },
+  { reason: 'customer-did-not-answer', weight: 4 },
+  { reason: 'exceeded-max-duration', weight: 2 },
+  { reason: 'pipeline-error-openai-llm-failed', weight: 2 }
+];
+
+// Opening line and a short exchange for each assistant's mock conversations
+const ASSISTANT_SCRIPTS: Record<string, { opening: string; exchange: [string, string][] }> = {
+  'Appointment Scheduler': {
+    opening: 'Hi, thanks for calling. I can help you book, move or cancel an appointment. What can I do for you?',
+    exchange: [
+      ['I need to move my appointment on Thursday.', 'Sure. Can I have the name the appointment is under?'],
+      ['It is under Jordan Lee.', 'Thanks, I found your appointment on Thursday at 10 AM. Would Friday at 2 PM work instead?'],
+      ['Friday at 2 works.', 'Great, you are now booked for Friday at 2 PM. You will get a confirmation text shortly.']
+    ]
+  },
+  'Customer Support': {
+    opening: 'Hello, you have reached support. How can I help you today?',
+    exchange: [
+      ['My account says my payment failed.', 'I am sorry about that. Could you confirm the email address on the account?'],
+      ['It is my work email, the one ending in acme dot com.', 'Thanks. I can see the card on file expired last month. You can update it under Billing in your account settings.'],
+      ['Okay, I will update it now.', 'Once it is updated the payment will retry automatically within an hour.']
+    ]
+  },
+  'Lead Qualifier': {
+    opening: 'Hi, this is Sam calling about the demo you requested. Do you have a couple of minutes?',
+    exchange: [
+      ['Sure, go ahead.', 'Great. How many people on your team would be using the product?'],
+      ['Around twenty five.', 'And are you looking to get started this quarter or later in the year?'],
+      ['Probably next month.', 'Perfect, I will have an account executive send over some times for a walkthrough.']
+    ]
+  },
+  'Order Status': {
+    opening: 'Thanks for calling. I can check on an order for you. What is your order number?',
+    exchange: [
+      ['It is 4 8 2 1 7.', 'Thank you. Order 48217 shipped yesterday and is due to arrive on Wednesday.'],
+      ['Can I change the delivery address?', 'Since it has already shipped I cannot change the address, but you can redirect it with the carrier using the tracking link we emailed.'],
+      ['Okay, I will do that.', 'Is there anything else I can help you with?']
+    ]
+  },
+  'After Hours Receptionist': {
+    opening: 'Hello, our office is currently closed. I can take a message or help with something simple. How can I help?',
+    exchange: [
+      ['I wanted to ask about your opening hours tomorrow.', 'We open at 8 AM and close at 6 PM tomorrow.'],
+      ['Can someone call me back in the morning?', 'Of course. What is the best number to reach you on?'],
+      ['This number is fine.', 'Got it. I have left a note for the team to call you back after 8 AM.']
+    ]
+  }
+};
+
+// Last lines of a mock conversation for each end reason
+const CLOSINGS: Record<string, { role: 'bot' | 'user'; message: string }[]> = {
+  'customer-ended-call': [{ role: 'user', message: 'Thanks, that is all. Bye.' }],
+  'assistant-ended-call': [
+    { role: 'user', message: 'No, that is everything, thank you.' },
+    { role: 'bot', message: 'You are welcome. Have a great day, goodbye!' }
+  ],
+  'silence-timed-out': [{ role: 'bot', message: 'Are you still there? I have not heard anything for a while.' }],
+  'assistant-forwarded-call': [
+    { role: 'user', message: 'Can I speak to a real person please?' },
+    { role: 'bot', message: 'Of course, transferring you to a member of the team now.' }
+  ],
+  'exceeded-max-duration': [
+    { role: 'user', message: 'Sorry, one more question about that.' },
+    { role: 'bot', message: 'Sure, go ahead.' }
+  ],
+  'pipeline-error-openai-llm-failed': [{ role: 'user', message: 'Hello? Are you still there?' }]
+};
+
+// Mock recordings are telephone quality, which keeps them small enough to embed
+const RECORDING_SAMPLE_RATE = 8000;
+
+// Only calls up to this long get a mock recording, as it is embedded in the call record
+const MAX_RECORDING_SECONDS = 60;
+
+// Relative call volume for each hour of the day
+const HOURLY_WEIGHTS = [
+  1, 1, 1, 1, 1, 2, 3, 5, 8, 10, 10, 9,
+  8, 9, 10, 10, 9, 8, 6, 5, 4, 3, 2, 1
+];
+
+/**
+ * Small seeded PRNG (mulberry32) so the same day always yields the same calls
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pickWeighted = <T>(random: () => number, items: T[], weights: number[]): T => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  for (let i = 0; i < items.length; i++) {
+    target -= weights[i];
+    if (target < 0) {
+      return items[i];
+    }
+  }
+  return items[items.length - 1];
+};
+
+/**
+ * Generate the calls for a single UTC day
+ * @param dayIndex Days since the Unix epoch
+ */
+const generateDay = (dayIndex: number): CallRecord[] => {
+  const random = createRandom(dayIndex * 2654435761);
+  const dayStart = dayIndex * DAY_MS;
+  const weekday = new Date(dayStart).getUTCDay();
+  const isWeekend = weekday === 0 || weekday === 6;
+
+  // Weekdays are busier than weekends, with some day-to-day noise
+  const baseVolume = isWeekend ? 12 : 40;
+  const callCount = Math.round(baseVolume * (0.7 + random() * 0.6));
+
+  const calls: CallRecord[] = [];
+  for (let i = 0; i < callCount; i++) {
+    const hour = pickWeighted(random, HOURLY_WEIGHTS.map((_, h) => h), HOURLY_WEIGHTS);
+    const createdAt = dayStart + hour * 60 * 60 * 1000 + Math.floor(random() * 60 * 60 * 1000);
+    const endReason = pickWeighted(random, END_REASONS.map(r => r.reason), END_REASONS.map(r => r.weight));
+
+    // Unanswered calls and voicemails are short, conversations follow a long tail
+    let duration: number;
+    if (endReason === 'customer-did-not-answer') {
+      duration = 0;
+    } else if (endReason === 'voicemail') {
+      duration = 15 + Math.floor(random() * 30);
+    } else if (endReason === 'exceeded-max-duration') {
+      duration = 600;
+    } else {
+      duration = Math.min(599, Math.round(20 + -Math.log(1 - random()) * 150));
+    }
+
+    // Platform, transport and model charges per minute, plus a small fixed fee
+    const ratePerMinute = 0.08 + random() * 0.07;
+    const cost = duration > 0 ? Number((0.01 + (duration / 60) * ratePerMinute).toFixed(4)) : 0;
+
+    const areaCode = 200 + Math.floor(random() * 800);
+    const lineNumber = String(Math.floor(random() * 10000)).padStart(4, '0');
+
+    calls.push({
+      id: `mock-${dayIndex}-${i}`,
+      created_at: new Date(createdAt).toISOString(),
+      duration,
+      cost,
+      end_reason: endReason,
+      "Customer Phone Number": `+1${areaCode}555${lineNumber}`,
+      "Assistant": ASSISTANTS[Math.floor(random() * ASSISTANTS.length)]
+    });
+  }
+
+  return calls.sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+/**
+ * Generate the conversation of a mock call
+ * Only done when a single call is looked up, since listing ranges of calls
+ * does not need transcripts
+ */
+const generateMessages = (call: CallRecord): CallMessage[] => {
+  const script = ASSISTANT_SCRIPTS[call["Assistant"] || ''];
+  if (!script || call.duration === 0) {
+    return [];
+  }
+
+  const lines: { role: 'bot' | 'user'; message: string }[] = [{ role: 'bot', message: script.opening }];
+  if (call.end_reason === 'voicemail') {
+    lines.push({ role: 'user', message: 'Sorry we missed your call. Please leave a message after the tone.' });
+  } else {
+    script.exchange.forEach(([customer, assistant]) => {
+      lines.push({ role: 'user', message: customer }, { role: 'bot', message: assistant });
+    });
+    lines.push(...(CLOSINGS[call.end_reason] || []));
+  }
+
+  // Spread the turns evenly across the call
+  const startTime = new Date(call.created_at).getTime();
+  return lines.map((line, index) => {
+    const secondsFromStart = Math.round((call.duration * index) / lines.length * 10) / 10;
+    return { ...line, time: startTime + secondsFromStart * 1000, secondsFromStart };
+  });
+};
+
+/**
+ * Generate deterministic mock call records for a date range
+ * @param startDate Start of the range
+ * @param endDate End of the range
+ * @returns Call records in chronological order
+ */
+export const generateMockCalls = (startDate: Date, endDate: Date): CallRecord[] => {
+  const firstDay = Math.max(Math.floor(startDate.getTime() / DAY_MS), MOCK_FIRST_DAY);
+  const lastDay = Math.min(Math.floor(endDate.getTime() / DAY_MS), Math.floor(Date.now() / DAY_MS));
+
+  const startTime = startDate.getTime();
+  const endTime = Math.min(endDate.getTime(), Date.now());
+
+  const calls: CallRecord[] = [];
+  for (let dayIndex = firstDay; dayIndex <= lastDay; dayIndex++) {
+    generateDay(dayIndex).forEach(call => {
+      const time = new Date(call.created_at).getTime();
+      if (time >= startTime && time <= endTime) {
+        calls.push(call);
+      }
+    });
+  }
+
+  return calls;
+};
+
+/**
+ * Synthesize a mock recording of a call as a WAV data URL
+ * Each turn is a buzzing tone with a syllable rhythm, higher for the assistant,
+ * so the player's waveform and transcript sync work without real audio
+ */
+const generateRecording = (call: CallRecord, messages: CallMessage[]): string => {
+  const random = createRandom(new Date(call.created_at).getTime());
+  const samples = new Uint8Array(Math.round(call.duration * RECORDING_SAMPLE_RATE)).fill(128);
+
+  messages.forEach((message, index) => {
+    // Leave a pause between turns
+    const start = (message.secondsFromStart ?? 0) + 0.3;
+    const end = (messages[index + 1]?.secondsFromStart ?? call.duration) - 0.4;
+    const pitch = message.role === 'bot' ? 190 : 125;
+    let syllable = -1;
+    let loudness = 0;
+
+    for (let i = Math.floor(start * RECORDING_SAMPLE_RATE); i < Math.min(samples.length, end * RECORDING_SAMPLE_RATE); i++) {
+      const time = i / RECORDING_SAMPLE_RATE;
+      // Four syllables a second, each a little louder or softer
+      if (Math.floor((time - start) * 4) !== syllable) {
+        syllable = Math.floor((time - start) * 4);
+        loudness = 0.4 + random() * 0.6;
+      }
+      const envelope = Math.sin(Math.PI * (time - start) * 4) ** 2 * loudness;
+      const voice = Math.sin(2 * Math.PI * pitch * time)
+        + 0.5 * Math.sin(4 * Math.PI * pitch * time)
+        + 0.25 * Math.sin(6 * Math.PI * pitch * time);
+      samples[i] = 128 + Math.round(envelope * voice * 60);
+    }
+  });
+
+  // 8-bit mono PCM WAV
+  const header = new DataView(new ArrayBuffer(44));
+  const writeText = (offset: number, text: string) => {
+    [...text].forEach((char, index) => header.setUint8(offset + index, char.charCodeAt(0)));
+  };
+  writeText(0, 'RIFF');
+  header.setUint32(4, 36 + samples.length, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, 1, true);
+  header.setUint32(24, RECORDING_SAMPLE_RATE, true);
+  header.setUint32(28, RECORDING_SAMPLE_RATE, true);
+  header.setUint16(32, 1, true);
+  header.setUint16(34, 8, true);
+  writeText(36, 'data');
+  header.setUint32(40, samples.length, true);
+
+  const bytes = new Uint8Array(44 + samples.length);
+  bytes.set(new Uint8Array(header.buffer));
+  bytes.set(samples, 44);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:audio/wav;base64,${btoa(binary)}`;
+};
+
+/**
+ * Look up a single mock call record by its id
+ * @param id Mock call id
+ * @returns The call record, or null if the id is not a mock id
+ */
+export const findMockCall = (id: string): CallRecord | null => {
+  const match = /^mock-(\d+)-\d+$/.exec(id);
+  if (!match || parseInt(match[1], 10) < MOCK_FIRST_DAY) {
+    return null;
+  }
+  const call = generateDay(parseInt(match[1], 10)).find(call => call.id === id);
+  if (!call) {
+    return null;
+  }
+
+  const messages = generateMessages(call);
+  const hasRecording = messages.length > 0 && call.duration <= MAX_RECORDING_SECONDS;
+  return {
+    ...call,
+    messages,
+    ...(hasRecording ? { recording_url: generateRecording(call, messages) } : {}),
+    transcript: messages
+      .map(message => `${message.role === 'bot' ? 'AI' : 'User'}: ${message.message}`)
+      .join('\n')
+  };
+};
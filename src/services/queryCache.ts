@@ -0,0 +1,306 @@
+// Cached results younger than this are served without asking the backend
+const STALE_TIME_MS = 30 * 1000;
+
+// Most results kept, least recently used ones are dropped first
+const MAX_ENTRIES = 200;
+
+// Persisted results older than this are not loaded on startup
+const MAX_PERSISTED_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Listeners hear about revalidated results in batches
+const NOTIFY_DELAY_MS = 50;
+
+/**
+ * Cached query result
+ */
+export interface CacheEntry {
+  data: unknown;
+  /** When the result was fetched, in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * Storage keeping cached results across page loads
+ */
+export interface QueryCachePersister {
+  /** Read every persisted result */
+  load: () => Promise<[string, CacheEntry][]>;
+  save: (key: string, entry: CacheEntry) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Cache for backend queries
+ */
+export interface QueryCache {
+  /**
+   * Run a query through the cache
+   * Fresh results are returned as they are. Stale results are returned too,
+   * and refetched in the background. Otherwise the query runs, shared with
+   * any identical query already in flight
+   * @param key Key identifying the query and its parameters
+   * @param fetcher Runs the query, aborted once every caller waiting for it has aborted
+   * @param signal Aborts this caller's wait
+   */
+  query: <T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  /**
+   * Drop cached results, so the next queries go to the backend
+   * @param prefix Only drop results whose key starts with this, every result when omitted
+   */
+  invalidate: (prefix?: string) => void;
+  /**
+   * Listen for stale results that were refetched and changed
+   * @returns Function removing the listener
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Query running against the backend, shared by every caller waiting for it
+ */
+interface InFlightQuery {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+  /** Set when the cache was invalidated while the query ran, its result is then not stored */
+  invalidated: boolean;
+}
+
+/**
+ * Get the error a query rejects with when its caller aborts
+ */
+const getAbortReason = (signal: AbortSignal): unknown => {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+};
+
+/**
+ * Create a query cache
+ * @param persister Storage to keep results in across page loads, memory only when omitted
+ */
+export const createQueryCache = (persister?: QueryCachePersister): QueryCache => {
+  // Map iteration order doubles as recency order, oldest first
+  const entries = new Map<string, CacheEntry>();
+  const inFlight = new Map<string, InFlightQuery>();
+  const listeners = new Set<() => void>();
+  let notifyTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // Results from the previous page load, loaded before the first query is answered
+  const ready = persister
+    ? persister.load()
+      .then(saved => saved
+        .filter(([, entry]) => Date.now() - entry.updatedAt < MAX_PERSISTED_AGE_MS)
+        .sort(([, a], [, b]) => a.updatedAt - b.updatedAt)
+        .forEach(([key, entry]) => entries.set(key, entry)))
+      .catch(error => console.warn('Could not load cached queries:', error))
+    : Promise.resolve();
+
+  const notify = () => {
+    clearTimeout(notifyTimer);
+    notifyTimer = setTimeout(() => listeners.forEach(listener => listener()), NOTIFY_DELAY_MS);
+  };
+
+  const store = (key: string, data: unknown) => {
+    const entry = { data, updatedAt: Date.now() };
+    entries.delete(key);
+    entries.set(key, entry);
+    persister?.save(key, entry).catch(error => console.warn('Could not persist cached query:', error));
+
+    while (entries.size > MAX_ENTRIES) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+      persister?.remove(oldest).catch(() => {});
+    }
+  };
+
+  /**
+   * Wait for a query, starting it unless the same query is already in flight
+   */
+  const join = <T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (signal?.aborted) {
+      return Promise.reject(getAbortReason(signal));
+    }
+
+    let flight = inFlight.get(key);
+    if (!flight) {
+      const started: InFlightQuery = { promise: Promise.resolve(), controller: new AbortController(), waiters: 0, invalidated: false };
+      started.promise = fetcher(started.controller.signal)
+        .then(data => {
+          // Results fetched before an invalidation may already be out of date
+          if (!started.invalidated) {
+            store(key, data);
+          }
+          return data;
+        })
+        .finally(() => {
+          if (inFlight.get(key) === started) {
+            inFlight.delete(key);
+          }
+        });
+      flight = started;
+      inFlight.set(key, flight);
+    }
+
+    const current = flight;
+    current.waiters += 1;
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        current.waiters -= 1;
+        // Nobody wants the result any more, so stop the request and let the next caller start afresh
+        if (current.waiters === 0) {
+          if (inFlight.get(key) === current) {
+            inFlight.delete(key);
+          }
+          current.controller.abort();
+        }
+        reject(getAbortReason(signal!));
+      };
+
+      signal?.addEventListener('abort', leave, { once: true });
+      // Long-lived signals are shared by many queries, so don't keep listening once this one settled
+      (current.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal?.removeEventListener('abort', leave));
+    });
+  };
+
+  /**
+   * Refetch a stale result in the background, telling listeners when it changed
+   */
+  const revalidate = <T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>, previous: unknown) => {
+    if (inFlight.has(key)) {
+      return;
+    }
+    join(key, fetcher)
+      .then(data => {
+        if (JSON.stringify(data) !== JSON.stringify(previous)) {
+          notify();
+        }
+      })
+      .catch(error => console.warn('Could not refresh cached query:', error));
+  };
+
+  return {
+    query: async <T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal) => {
+      await ready;
+      const entry = entries.get(key);
+      if (!entry) {
+        return join(key, fetcher, signal);
+      }
+
+      // Mark as recently used
+      entries.delete(key);
+      entries.set(key, entry);
+
+      if (Date.now() - entry.updatedAt > STALE_TIME_MS) {
+        revalidate(key, fetcher, entry.data);
+      }
+      return entry.data as T;
+    },
+
+    invalidate: (prefix) => {
+      // Queries already running keep answering their callers, but later
+      // queries start afresh and the running ones' results are not stored
+      inFlight.forEach((flight, key) => {
+        if (prefix === undefined || key.startsWith(prefix)) {
+          flight.invalidated = true;
+          inFlight.delete(key);
+        }
+      });
+
+      if (prefix === undefined) {
+        entries.clear();
+        persister?.clear().catch(error => console.warn('Could not clear cached queries:', error));
+        return;
+      }
+      [...entries.keys()].filter(key => key.startsWith(prefix)).forEach(key => {
+        entries.delete(key);
+        persister?.remove(key).catch(error => console.warn('Could not remove cached query:', error));
+      });
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Create a persister keeping cached results in an IndexedDB object store
+ * @param databaseName IndexedDB database name
+ * @param storeName Object store holding the results
+ */
+export const createIndexedDbPersister = (
+  databaseName = 'voice-ai-dashboard',
+  storeName = 'queries'
+): QueryCachePersister => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      database = requestToPromise(request);
+    }
+    return database;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    load: async () => {
+      const [keys, values] = await Promise.all([
+        withStore('readonly', store => store.getAllKeys()),
+        withStore('readonly', store => store.getAll() as IDBRequest<CacheEntry[]>)
+      ]);
+      return keys.map((key, index): [string, CacheEntry] => [String(key), values[index]]);
+    },
+    save: async (key, entry) => {
+      await withStore('readwrite', store => store.put(entry, key));
+    },
+    remove: async (key) => {
+      await withStore('readwrite', store => store.delete(key));
+    },
+    clear: async () => {
+      await withStore('readwrite', store => store.clear());
+    }
+  };
+};
+
+let activeQueryCache: QueryCache | null | undefined;
+
+/**
+ * Get the query cache, set up with VITE_QUERY_CACHE: `memory` (default),
+ * `indexeddb` to also keep results across page loads, or `off`
+ * @returns The cache, null when caching is off
+ */
+export const getQueryCache = (): QueryCache | null => {
+  if (activeQueryCache === undefined) {
+    const mode = import.meta.env.VITE_QUERY_CACHE || 'memory';
+    activeQueryCache = mode === 'off'
+      ? null
+      : createQueryCache(mode === 'indexeddb' && typeof indexedDB !== 'undefined' ? createIndexedDbPersister() : undefined);
+  }
+  return activeQueryCache;
+};
+
+/**
+ * Replace the query cache, null to turn caching off
+ */
+export const setQueryCache = (cache: QueryCache | null) => {
+  activeQueryCache = cache;
+};
@@ -0,0 +1,187 @@
+import { CallRecord } from '../types/api';
+import { CallSubscriptionHandlers } from '../types/dataSource';
+
+// Supabase closes connections that stay silent for longer than 30 seconds
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Wait before each reconnect attempt, the last one repeating
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000];
+
+/**
+ * Message of the Phoenix channel protocol Supabase Realtime speaks (vsn 1.0.0)
+ * Only the payload fields the subscription reads are listed
+ */
+interface PhoenixMessage {
+  topic: string;
+  event: string;
+  payload?: {
+    /** Outcome of a join (`phx_reply`) or of the database subscription (`system`) */
+    status?: 'ok' | 'error';
+    response?: unknown;
+    message?: string;
+    /** Change of a `postgres_changes` event */
+    data?: {
+      type?: 'INSERT' | 'UPDATE' | 'DELETE';
+      record?: CallRecord;
+    };
+  };
+  ref: string | null;
+}
+
+/**
+ * Options for a Supabase Realtime subscription
+ */
+export interface RealtimeOptions {
+  /** Realtime websocket URL, e.g. `wss://<project>.supabase.co/realtime/v1/websocket` */
+  url: string;
+  /** Supabase API key */
+  key: string;
+  /** Resolves the signed-in user's JWT, so row level security decides which rows are pushed */
+  getAccessToken?: () => Promise<string | null>;
+  /** Table to watch for inserts */
+  table: string;
+  /** Schema of the table, defaults to `public` */
+  schema?: string;
+  /** WebSocket implementation, the browser's by default */
+  WebSocket?: typeof WebSocket;
+}
+
+/**
+ * Get the Realtime websocket URL of a Supabase project
+ * @param projectUrl Supabase project URL, e.g. `https://<project>.supabase.co`
+ */
+export const getRealtimeUrl = (projectUrl: string): string => {
+  return `${projectUrl.replace(/^http/, 'ws').replace(/\/$/, '')}/realtime/v1/websocket`;
+};
+
+/**
+ * Subscribe to rows inserted into a table through Supabase Realtime
+ * Joins a channel listening for Postgres INSERT changes, sends heartbeats to
+ * keep the connection open, and reconnects with backoff when it drops
+ * @param options Connection options
+ * @param handlers Callbacks for inserted rows and status changes
+ * @returns Function closing the subscription
+ */
+export const subscribeToInserts = (options: RealtimeOptions, handlers: CallSubscriptionHandlers): (() => void) => {
+  const { url, key, table, schema = 'public', getAccessToken, WebSocket: WebSocketImpl = WebSocket } = options;
+  const topic = `realtime:${schema}:${table}`;
+
+  let socket: WebSocket | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let ref = 0;
+  let joinRef: string | null = null;
+  let isClosed = false;
+  let accessToken = key;
+
+  const send = (messageTopic: string, event: string, payload: object): string => {
+    const messageRef = String(++ref);
+    socket?.send(JSON.stringify({ topic: messageTopic, event, payload, ref: messageRef }));
+    return messageRef;
+  };
+
+  const stop = () => {
+    isClosed = true;
+    clearTimeout(reconnectTimer);
+    clearInterval(heartbeatTimer);
+    socket?.close();
+  };
+
+  const handleMessage = (message: PhoenixMessage) => {
+    if (message.topic !== topic) {
+      return;
+    }
+
+    switch (message.event) {
+      case 'phx_reply':
+        if (message.ref !== joinRef) {
+          return;
+        }
+        if (message.payload?.status === 'ok') {
+          attempt = 0;
+          handlers.onStatus?.('live');
+        } else {
+          // Rejected joins (e.g. a bad key) fail the same way on every retry
+          console.error('Realtime subscription rejected:', message.payload?.response);
+          handlers.onStatus?.('error');
+          stop();
+        }
+        return;
+      case 'postgres_changes': {
+        const change = message.payload?.data;
+        if (change?.type === 'INSERT' && change.record) {
+          handlers.onInsert(change.record);
+        }
+        return;
+      }
+      case 'system':
+        if (message.payload?.status === 'error') {
+          console.error('Realtime subscription failed:', message.payload?.message);
+          handlers.onStatus?.('error');
+          stop();
+        }
+        return;
+      case 'phx_error':
+      case 'phx_close':
+        // The server dropped the channel, rejoin on a fresh connection
+        socket?.close();
+        return;
+    }
+  };
+
+  const connect = () => {
+    if (attempt === 0) {
+      handlers.onStatus?.('connecting');
+    }
+    const separator = url.includes('?') ? '&' : '?';
+    const ws = new WebSocketImpl(`${url}${separator}apikey=${encodeURIComponent(key)}&vsn=1.0.0`);
+    socket = ws;
+
+    ws.onopen = async () => {
+      accessToken = (await getAccessToken?.()) || key;
+      if (isClosed || socket !== ws) {
+        return;
+      }
+      joinRef = send(topic, 'phx_join', {
+        config: {
+          broadcast: { self: false },
+          presence: { key: '' },
+          postgres_changes: [{ event: 'INSERT', schema, table }]
+        },
+        access_token: accessToken
+      });
+      heartbeatTimer = setInterval(async () => {
+        send('phoenix', 'heartbeat', {});
+        // Hand refreshed tokens to the channel before the one it joined with expires
+        const token = (await getAccessToken?.()) || key;
+        if (token !== accessToken && socket === ws) {
+          accessToken = token;
+          send(topic, 'access_token', { access_token: token });
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        handleMessage(JSON.parse(String(event.data)));
+      } catch (error) {
+        console.warn('Ignoring unreadable realtime message:', error);
+      }
+    };
+
+    ws.onclose = () => {
+      clearInterval(heartbeatTimer);
+      if (isClosed || socket !== ws) {
+        return;
+      }
+      handlers.onStatus?.('reconnecting');
+      const delay = RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+      attempt += 1;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+  return stop;
+};
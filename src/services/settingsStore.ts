@@ -0,0 +1,135 @@
+import { createApiClient } from './apiClient';
+import { getAccessToken } from './auth';
+import { isSignInRequired } from './dataSources';
+import { Workspace } from '../types/workspace';
+
+/**
+ * Key-value store for dashboard settings such as budgets
+ */
+export interface SettingsStore {
+  /** Human-readable description of where settings are kept */
+  label: string;
+  /** Read a setting, null when it has never been saved */
+  load: <T>(key: string) => Promise<T | null>;
+  /** Save a setting, replacing any previous value */
+  save: <T>(key: string, value: T) => Promise<void>;
+}
+
+/**
+ * Create a settings store keeping settings in this browser's localStorage
+ * @param prefix Prefix for localStorage keys
+ */
+export const createLocalSettingsStore = (prefix = 'settings:'): SettingsStore => ({
+  label: 'this browser',
+
+  load: async <T>(key: string) => {
+    const saved = localStorage.getItem(`${prefix}${key}`);
+    if (saved === null) {
+      return null;
+    }
+    try {
+      return JSON.parse(saved) as T;
+    } catch {
+      console.warn(`Ignoring unreadable setting ${key}`);
+      return null;
+    }
+  },
+
+  save: async (key, value) => {
+    localStorage.setItem(`${prefix}${key}`, JSON.stringify(value));
+  }
+});
+
+/**
+ * Create a settings store keeping settings in a Supabase table with `key`
+ * and `value` (jsonb) columns, see supabase/migrations
+ * @param url Supabase project URL
+ * @param key Supabase API key
+ * @param table Table holding settings
+ * @param getAccessToken Resolves the signed-in user's JWT, the API key is sent without one
+ */
+export const createSupabaseSettingsStore = (
+  url: string,
+  key: string,
+  table = 'dashboard_settings',
+  getAccessToken?: () => Promise<string | null>
+): SettingsStore => {
+  const supabaseApi = createApiClient({
+    baseURL: url,
+    headers: {
+      'apikey': key,
+      'Authorization': `Bearer ${key}`,
+      'Content-Type': 'application/json'
+    }
+  }, { getAccessToken });
+
+  const path = `/rest/v1/${table}`;
+
+  return {
+    label: 'Supabase',
+
+    load: async <T>(settingKey: string) => {
+      const response = await supabaseApi.get<{ value: T }[]>(path, {
+        params: {
+          select: 'value',
+          key: `eq.${settingKey}`
+        }
+      });
+      return response.data?.[0]?.value ?? null;
+    },
+
+    save: async (settingKey, value) => {
+      // Upsert on the key column
+      await supabaseApi.post(path, { key: settingKey, value, updated_at: new Date().toISOString() }, {
+        headers: {
+          'Prefer': 'resolution=merge-duplicates,return=minimal'
+        }
+      });
+    }
+  };
+};
+
+/**
+ * Create the settings store of a workspace other than the default one, of the
+ * kind VITE_SETTINGS_STORE picks: the settings table in the workspace's own
+ * project, or localStorage keys kept apart per workspace
+ */
+export const createWorkspaceSettingsStore = (workspace: Workspace): SettingsStore => {
+  const env = import.meta.env;
+  return env.VITE_SETTINGS_STORE === 'supabase'
+    ? createSupabaseSettingsStore(
+      workspace.url,
+      workspace.key,
+      env.VITE_SUPABASE_SETTINGS_TABLE || 'dashboard_settings',
+      // Read as the signed-in user like the workspace's calls, see getWorkspaceDataSourceConfig
+      isSignInRequired() ? getAccessToken : undefined
+    )
+    : createLocalSettingsStore(`settings:${workspace.id}:`);
+};
+
+let activeSettingsStore: SettingsStore | null = null;
+
+/**
+ * Get the settings store, picked with VITE_SETTINGS_STORE (`local` or `supabase`)
+ */
+export const getSettingsStore = (): SettingsStore => {
+  if (!activeSettingsStore) {
+    const env = import.meta.env;
+    activeSettingsStore = env.VITE_SETTINGS_STORE === 'supabase'
+      ? createSupabaseSettingsStore(
+        env.VITE_SUPABASE_URL || '',
+        env.VITE_SUPABASE_ANON_KEY || '',
+        env.VITE_SUPABASE_SETTINGS_TABLE || 'dashboard_settings',
+        getAccessToken
+      )
+      : createLocalSettingsStore();
+  }
+  return activeSettingsStore;
+};
+
+/**
+ * Replace the settings store, null to go back to the one the environment picks
+ */
+export const setSettingsStore = (store: SettingsStore | null) => {
+  activeSettingsStore = store;
+};
@@ -0,0 +1,92 @@
+import { DataSourceConfig } from '../types/dataSource';
+import { Workspace } from '../types/workspace';
+import { getDataSourceConfigFromEnv, isSignInRequired } from './dataSources';
+import { getAccessToken } from './auth';
+
+// Id of the workspace configured through the environment
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// localStorage keys for the registry and the workspace last opened. The
+// registry stays in this browser, as it holds each project's API key
+const WORKSPACES_STORAGE_KEY = 'workspaces';
+const ACTIVE_WORKSPACE_STORAGE_KEY = 'workspace';
+
+/**
+ * Get the workspace configured through the environment
+ * Its data source, which need not be Supabase, always comes from the environment
+ */
+const getEnvWorkspace = (): Workspace => {
+  const env = import.meta.env;
+  return {
+    id: DEFAULT_WORKSPACE_ID,
+    name: 'Default',
+    url: env.VITE_SUPABASE_URL || '',
+    key: env.VITE_SUPABASE_ANON_KEY || '',
+    timeZone: 'browser',
+    currency: 'USD'
+  };
+};
+
+/**
+ * Load the workspace registry, the default workspace first
+ * Only the name, timezone and currency of the default workspace can be
+ * changed, its URL and key always come from the environment
+ */
+export const loadWorkspaces = (): Workspace[] => {
+  const envWorkspace = getEnvWorkspace();
+  let saved: Workspace[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(WORKSPACES_STORAGE_KEY) || '[]');
+  } catch {
+    console.warn('Ignoring unreadable workspaces');
+  }
+
+  const savedDefault = saved.find(workspace => workspace.id === DEFAULT_WORKSPACE_ID);
+  return [
+    savedDefault ? { ...savedDefault, url: envWorkspace.url, key: envWorkspace.key } : envWorkspace,
+    ...saved.filter(workspace => workspace.id !== DEFAULT_WORKSPACE_ID)
+  ];
+};
+
+/**
+ * Save the workspace registry
+ */
+export const saveWorkspaces = (workspaces: Workspace[]) => {
+  localStorage.setItem(WORKSPACES_STORAGE_KEY, JSON.stringify(workspaces));
+};
+
+/**
+ * Get the id of the workspace last opened, the default workspace when none was
+ */
+export const loadActiveWorkspaceId = (): string => {
+  return localStorage.getItem(ACTIVE_WORKSPACE_STORAGE_KEY) || DEFAULT_WORKSPACE_ID;
+};
+
+/**
+ * Remember the workspace last opened
+ */
+export const saveActiveWorkspaceId = (id: string) => {
+  localStorage.setItem(ACTIVE_WORKSPACE_STORAGE_KEY, id);
+};
+
+/**
+ * Get the configuration of a workspace's data source
+ * Other workspaces use their own API key. While sign-in is required they are
+ * read as the signed-in user too, so their row level security applies; a
+ * project that doesn't accept the default project's sessions then rejects
+ * the requests instead of serving them to the anon key
+ */
+export const getWorkspaceDataSourceConfig = (workspace: Workspace): DataSourceConfig => {
+  if (workspace.id === DEFAULT_WORKSPACE_ID) {
+    return getDataSourceConfigFromEnv();
+  }
+  const env = import.meta.env;
+  return {
+    type: 'supabase',
+    url: workspace.url,
+    key: workspace.key,
+    table: env.VITE_SUPABASE_CALLS_TABLE || 'calls',
+    analyticsFunction: env.VITE_SUPABASE_ANALYTICS_FUNCTION ?? 'call_analytics',
+    getAccessToken: isSignInRequired() ? getAccessToken : undefined
+  };
+};
@@ -0,0 +1,63 @@
+/**
+ * Premium UI colors shared by the dashboard pages
+ */
+export const uiColors = {
+  background: '#111827', // Dark blue-gray for background
+  cardBg: '#1f2937', // Slightly lighter blue-gray for cards
+  accent: '#6366f1', // Indigo accent color
+  text: '#f3f4f6', // Light gray text
+  subtext: '#9ca3af', // Medium gray for subtitles
+  border: '#374151', // Border color
+  success: '#10b981', // Green for positive indicators
+  chartColors: {
+    calls: '#818cf8', // Indigo
+    minutes: '#34d399', // Emerald green
+    cost: '#fbbf24', // Amber
+    avgDuration: '#f87171', // Rose
+  },
+  endReasonColors: {
+    success: '#34d399', // Emerald green
+    customerHangup: '#818cf8', // Indigo
+    transfer: '#38bdf8', // Sky blue
+    timeout: '#fbbf24', // Amber
+    error: '#f87171', // Rose
+    other: '#94a3b8', // Slate
+  },
+  anomalyColors: {
+    warning: '#f59e0b', // Amber
+    critical: '#ef4444', // Red
+  },
+  // Colors for charts with one series per assistant, category, etc.
+  seriesPalette: [
+    '#818cf8', // Indigo
+    '#34d399', // Emerald green
+    '#fbbf24', // Amber
+    '#f87171', // Rose
+    '#38bdf8', // Sky blue
+    '#c084fc', // Purple
+    '#fb923c', // Orange
+    '#2dd4bf', // Teal
+    '#f472b6', // Pink
+    '#a3e635', // Lime
+    '#94a3b8', // Slate
+    '#facc15' // Yellow
+  ]
+};
+
+/**
+ * Light colors for printed and PDF reports
+ */
+export const reportColors = {
+  background: '#ffffff',
+  pageBg: '#e5e7eb', // Gray behind the pages on screen
+  text: '#111827',
+  subtext: '#6b7280',
+  border: '#e5e7eb',
+  accent: '#4f46e5',
+  chartColors: {
+    calls: '#4f46e5', // Indigo
+    minutes: '#059669', // Emerald green
+    cost: '#d97706', // Amber
+    avgDuration: '#dc2626', // Rose
+  }
+};
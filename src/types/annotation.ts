@@ -0,0 +1,11 @@
+/**
+ * Note pinned to a point in time, shown as a marker on the charts
+ */
+export interface Annotation {
+  /** Unique identifier for the annotation */
+  id: string;
+  /** When it happened, in ISO format */
+  date: string;
+  /** Short description, e.g. "Deployed prompt v12" */
+  label: string;
+}
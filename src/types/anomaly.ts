@@ -0,0 +1,25 @@
+/**
+ * Metric an anomaly was detected in, the analytics metrics plus cost per call
+ */
+export type AnomalyMetric = 'calls' | 'minutes' | 'cost' | 'avgDuration' | 'costPerCall';
+
+/**
+ * How far a value is from its baseline
+ */
+export type AnomalySeverity = 'warning' | 'critical';
+
+/**
+ * Bucket whose value is far from what recent buckets lead to expect
+ */
+export interface Anomaly {
+  /** Start of the bucket in ISO format */
+  date: string;
+  metric: AnomalyMetric;
+  /** Value in the bucket */
+  value: number;
+  /** Median of the baseline buckets */
+  baseline: number;
+  /** Distance from the baseline in robust standard deviations, negative for drops */
+  score: number;
+  severity: AnomalySeverity;
+}
@@ -16,22 +16,125 @@ export interface CallRecord {
   "Customer Phone Number"?: string;
   /** Assistant used for the call */
   "Assistant"?: string;
+  /** Plain-text transcript, one `AI:` or `User:` line per turn */
+  transcript?: string;
+  /** Messages exchanged during the call, in order */
+  messages?: CallMessage[];
+  /** Recording of the call, absolute or relative to the configured recording base URL */
+  recording_url?: string;
+}
+
+/**
+ * Message exchanged during a call, in the voice platform's format
+ */
+export interface CallMessage {
+  /** Who sent the message, e.g. `bot`, `user`, `system` or `tool_calls` */
+  role: string;
+  /** Message text */
+  message?: string;
+  /** When the message was sent, in milliseconds since the Unix epoch */
+  time?: number;
+  /** When the message was sent, in seconds since the call started */
+  secondsFromStart?: number;
+}
+
+/**
+ * Who spoke a transcript turn
+ */
+export type TranscriptSpeaker = 'assistant' | 'customer' | 'system' | 'tool';
+
+/**
+ * One turn of a call transcript
+ */
+export interface TranscriptTurn {
+  /** Who spoke */
+  speaker: TranscriptSpeaker;
+  /** What was said */
+  text: string;
+  /** When the turn started, in seconds since the call started, null when unknown */
+  secondsFromStart: number | null;
 }
 
+/**
+ * Size of the time buckets analytics are grouped into
+ */
+export type Granularity = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
 /**
  * Call analytics data for dashboard charts
  */
 export interface CallAnalytics {
-  /** Date in YYYY-MM-DD format */
+  /** Start of the time bucket in ISO format */
   date: string;
-  /** Number of calls for the date */
+  /** Number of calls in the bucket */
+  calls: number;
+  /** Total minutes of calls in the bucket */
+  minutes: number;
+  /** Total cost of calls in the bucket */
+  cost: number;
+  /** Average duration of calls in minutes */
+  avgDuration: number;
+}
+
+/**
+ * Call analytics for a single assistant
+ */
+export interface AssistantAnalytics extends CallAnalytics {
+  /** Assistant the calls were handled by */
+  assistant: string;
+}
+
+/**
+ * Broad outcome a call ended with
+ */
+export type EndReasonCategory = 'success' | 'customerHangup' | 'error' | 'timeout' | 'transfer' | 'other';
+
+/**
+ * Call analytics for a single end reason
+ */
+export interface EndReasonAnalytics extends CallAnalytics {
+  /** Reason the calls ended, as reported by the voice platform */
+  endReason: string;
+}
+
+/**
+ * Totals for one assistant, used by the assistant leaderboard
+ */
+export interface AssistantStats {
+  /** Assistant name */
+  assistant: string;
+  /** Number of calls */
   calls: number;
-  /** Total minutes of calls for the date */
+  /** Total minutes of calls */
   minutes: number;
-  /** Total cost of calls for the date */
+  /** Total cost of calls */
   cost: number;
   /** Average duration of calls in minutes */
   avgDuration: number;
+  /** Cost per call minute */
+  costPerMinute: number;
+}
+
+/**
+ * Totals for one end reason
+ */
+export interface EndReasonStats {
+  /** Reason the calls ended, as reported by the voice platform */
+  endReason: string;
+  /** Category of the end reason */
+  category: EndReasonCategory;
+  /** Number of calls */
+  calls: number;
+}
+
+/**
+ * Filters narrowing which calls are included in every query
+ */
+export interface CallFilters {
+  /** Only include calls handled by these assistants, all assistants when empty */
+  assistants?: string[];
+  /** Only include calls whose end reason falls in these categories, all calls when empty */
+  endReasonCategories?: EndReasonCategory[];
 }
 
 /**
@@ -46,12 +149,35 @@ export interface CallDetail {
   duration: number;
   /** Cost of the call */
   cost: number;
-  /** Status of the call */
-  status: string;
+  /** Reason the call ended, as reported by the voice platform */
+  endReason: string;
+  /** Category of the end reason */
+  endReasonCategory: EndReasonCategory;
+  /** Assistant used for the call */
+  assistant?: string;
+  /** Customer phone number */
+  customerNumber?: string;
+  /** URL of the call recording */
+  recordingUrl?: string;
   /** Full transcript of the call */
   transcript?: string;
 }
 
+/**
+ * Fields the call list can be sorted by
+ */
+export type CallSortField = 'timestamp' | 'duration' | 'cost';
+
+/**
+ * Sort order for the call list
+ */
+export interface CallSort {
+  /** Field to sort by */
+  field: CallSortField;
+  /** Sort direction */
+  direction: 'asc' | 'desc';
+}
+
 /**
  * API response for call analytics
  */
@@ -90,6 +216,17 @@ export interface CallDetailsResponse {
   };
 }
 
+/**
+ * What went wrong with a request, deciding how the failure is explained
+ * - `credentials`: the API key or token was rejected
+ * - `access`: the table or function is missing, or the key may not read it
+ * - `rateLimited`: too many requests
+ * - `offline`: no response, the browser is offline or the server unreachable
+ * - `server`: the server failed to answer
+ * - `unknown`: any other failure
+ */
+export type ApiErrorKind = 'credentials' | 'access' | 'rateLimited' | 'offline' | 'server' | 'unknown';
+
 /**
  * API error response
  */
@@ -98,6 +235,10 @@ export interface ApiError {
   message: string;
   /** Error code */
   code: string;
-  /** HTTP status code */
+  /** HTTP status code, 0 when no response arrived */
   status: number;
+  /** Kind of failure */
+  kind: ApiErrorKind;
+  /** Seconds the server asked to wait before retrying, from Retry-After */
+  retryAfter?: number;
 }
\ No newline at end of file
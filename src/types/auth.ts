@@ -0,0 +1,20 @@
+/**
+ * Signed-in user
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * Session of a signed-in user
+ */
+export interface AuthSession {
+  /** JWT sent with requests, so row level security applies to the user */
+  accessToken: string;
+  /** Token exchanged for a new access token before it expires */
+  refreshToken: string;
+  /** When the access token expires, in milliseconds since the epoch */
+  expiresAt: number;
+  user: AuthUser;
+}
@@ -0,0 +1,43 @@
+/**
+ * Period a budget applies to
+ */
+export type BudgetPeriod = 'day' | 'month';
+
+/**
+ * Spending limit for a period, overall or for one assistant
+ */
+export interface Budget {
+  /** Unique identifier for the budget */
+  id: string;
+  /** Period the amount is allowed per */
+  period: BudgetPeriod;
+  /** Budget in dollars */
+  amount: number;
+  /** Assistant the budget is limited to, all assistants when omitted */
+  assistant?: string;
+}
+
+/**
+ * How close spending is to a budget
+ */
+export type BudgetLevel = 'ok' | 'warning' | 'critical';
+
+/**
+ * Spending against a budget in its current period
+ */
+export interface BudgetStatus {
+  budget: Budget;
+  /** Spent so far in the current period */
+  spent: number;
+  /** Spent as a fraction of the budget */
+  ratio: number;
+  level: BudgetLevel;
+  /** Start of the current period */
+  periodStart: Date;
+  /** End of the current period */
+  periodEnd: Date;
+  /** Spend at the current burn rate by the end of the period */
+  projectedSpend: number;
+  /** When the budget runs out at the current burn rate, null if it lasts the period */
+  exhaustedAt: Date | null;
+}
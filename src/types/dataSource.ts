@@ -0,0 +1,129 @@
+import { AssistantAnalytics, CallAnalytics, CallFilters, CallRecord, CallSort, EndReasonAnalytics, Granularity } from './api';
+
+/**
+ * Filters applied when reading call records
+ */
+export interface CallQuery extends CallFilters {
+  /** Only include calls created at or after this time */
+  startDate?: Date;
+  /** Only include calls created at or before this time */
+  endDate?: Date;
+  /** Aborts the request when signalled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Query for a single page of call records
+ */
+export interface CallPageQuery extends CallQuery {
+  /** Number of records to skip */
+  offset: number;
+  /** Maximum number of records to return */
+  limit: number;
+  /** Sort order */
+  sort: CallSort;
+}
+
+/**
+ * A page of call records
+ */
+export interface CallPage {
+  /** Records on this page */
+  records: CallRecord[];
+  /** Total number of records matching the query */
+  total: number;
+}
+
+/**
+ * State of a live subscription to new calls
+ */
+export type LiveStatus = 'connecting' | 'live' | 'reconnecting' | 'error';
+
+/**
+ * Callbacks of a live subscription to new calls
+ */
+export interface CallSubscriptionHandlers {
+  /** Called with each call record inserted after subscribing */
+  onInsert: (record: CallRecord) => void;
+  /** Called whenever the subscription's state changes */
+  onStatus?: (status: LiveStatus) => void;
+}
+
+/**
+ * Backend that call records are read from
+ */
+export interface CallDataSource {
+  /** Human-readable description of where the data comes from */
+  label: string;
+  /** Time of the earliest call, when known without a query; custom ranges can't start before it */
+  firstCallDate?: Date;
+  /** Read every call matching the query in chronological order */
+  listCalls: (query: CallQuery) => Promise<CallRecord[]>;
+  /** Read one page of calls matching the query */
+  pageCalls: (query: CallPageQuery) => Promise<CallPage>;
+  /** Read a single call by id */
+  getCall: (id: string, signal?: AbortSignal) => Promise<CallRecord | null>;
+  /**
+   * Aggregate calls on the backend, if supported
+   * Resolves to null when the backend cannot aggregate, in which case
+   * records are read with listCalls and aggregated in the browser
+   */
+  aggregateCalls?: (query: CallQuery, granularity: Granularity, timeZone: string) => Promise<CallAnalytics[] | null>;
+  /** Aggregate calls per assistant on the backend, if supported (see aggregateCalls) */
+  aggregateCallsByAssistant?: (
+    query: CallQuery,
+    granularity: Granularity,
+    timeZone: string
+  ) => Promise<AssistantAnalytics[] | null>;
+  /** Aggregate calls per end reason on the backend, if supported (see aggregateCalls) */
+  aggregateCallsByEndReason?: (
+    query: CallQuery,
+    granularity: Granularity,
+    timeZone: string
+  ) => Promise<EndReasonAnalytics[] | null>;
+  /**
+   * Subscribe to calls as they are inserted, if supported
+   * @returns Function ending the subscription
+   */
+  subscribeToCalls?: (handlers: CallSubscriptionHandlers) => () => void;
+}
+
+/**
+ * Configuration selecting and setting up a data source
+ */
+export type DataSourceConfig =
+  | {
+      type: 'supabase';
+      /** Supabase project URL */
+      url: string;
+      /** Supabase API key */
+      key: string;
+      /** Table holding call records, defaults to `calls` */
+      table?: string;
+      /** Postgres function returning aggregated analytics, empty to disable */
+      analyticsFunction?: string;
+      /** Realtime websocket URL, derived from the project URL when omitted */
+      realtimeUrl?: string;
+      /** Resolves the signed-in user's JWT, sent instead of the API key so row level security applies */
+      getAccessToken?: () => Promise<string | null>;
+    }
+  | {
+      type: 'vapi';
+      /** Vapi API base URL */
+      url: string;
+      /** Vapi API key */
+      key: string;
+    }
+  | {
+      type: 'file';
+      /** URL of a JSON or CSV file with call records */
+      url: string;
+    }
+  | {
+      type: 'memory';
+      /** Call records to serve */
+      records: CallRecord[];
+    }
+  | {
+      type: 'mock';
+    };
@@ -0,0 +1,11 @@
+/**
+ * Named dashboard view, reopened from the views menu
+ */
+export interface SavedView {
+  /** Unique identifier for the view */
+  id: string;
+  /** Name shown in the menu, e.g. "Sales, last 30 days" */
+  name: string;
+  /** URL search params holding the view's range and filters, e.g. `range=month&assistant=Sales` */
+  search: string;
+}
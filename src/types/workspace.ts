@@ -0,0 +1,17 @@
+import { TimeZoneSetting } from '../utils/timezone';
+
+/**
+ * Workspace, one Supabase project the dashboard can read calls from
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  /** Supabase project URL */
+  url: string;
+  /** Supabase API key */
+  key: string;
+  /** Timezone the dashboard switches to when the workspace is opened */
+  timeZone: TimeZoneSetting;
+  /** ISO 4217 code costs are shown in, e.g. `USD` */
+  currency: string;
+}
@@ -0,0 +1,49 @@
+import { Granularity } from '../types/api';
+import { Annotation } from '../types/annotation';
+import { getBucketStart } from './timeBuckets';
+
+/**
+ * Vertical chart marker for the annotations falling into one bucket
+ */
+export interface AnnotationMarker {
+  /** Date of the chart bucket, exactly as it appears in the chart data */
+  date: string;
+  /** Annotation labels joined for display */
+  label: string;
+  annotations: Annotation[];
+}
+
+/**
+ * Place annotations on a chart's buckets
+ * Annotations outside the chart's buckets are left out
+ * @param annotations Annotations to place
+ * @param dates Bucket dates of the chart data, in chart order
+ * @param granularity Bucket size
+ * @param timeZone IANA timezone buckets are aligned to
+ * @returns One marker per bucket with annotations
+ */
+export const getAnnotationMarkers = (
+  annotations: Annotation[],
+  dates: string[],
+  granularity: Granularity,
+  timeZone: string
+): AnnotationMarker[] => {
+  const datesByTime = new Map(dates.map(date => [new Date(date).getTime(), date]));
+  const markers = new Map<string, Annotation[]>();
+
+  [...annotations]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(annotation => {
+      const bucket = getBucketStart(new Date(annotation.date), granularity, timeZone).getTime();
+      const date = datesByTime.get(bucket);
+      if (date) {
+        markers.set(date, [...(markers.get(date) || []), annotation]);
+      }
+    });
+
+  return [...markers.entries()].map(([date, bucketAnnotations]) => ({
+    date,
+    label: bucketAnnotations.map(annotation => annotation.label).join(', '),
+    annotations: bucketAnnotations
+  }));
+};
@@ -0,0 +1,198 @@
+import { CallAnalytics, Granularity } from '../types/api';
+import { Anomaly, AnomalyMetric, AnomalySeverity } from '../types/anomaly';
+import { getBucketStart, getNextBucket, isGranularityAllowed, MAX_BUCKETS } from './timeBuckets';
+import { formatBucket, formatCurrency } from './formatters';
+
+/** Scores at or beyond these flag a bucket */
+export const ANOMALY_THRESHOLDS: Record<AnomalySeverity, number> = {
+  warning: 3.5,
+  critical: 6
+};
+
+// Fewest baseline buckets needed to judge a bucket
+const MIN_BASELINE = 3;
+
+// Spread assumed at least this fraction of the baseline, so flat series
+// don't flag every small wobble
+const MIN_RELATIVE_SPREAD = 0.15;
+
+// Fewest calls a bucket needs for its ratios to mean something
+const MIN_CALLS_FOR_RATIOS = 5;
+
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_TO_STD_DEV = 1.4826;
+
+/**
+ * Baseline each bucket is compared with: the same position in the previous
+ * `window` seasons, e.g. the same weekday in the previous four weeks
+ */
+const baselines: Record<Granularity, { window: number; season: number }> = {
+  minute: { window: 30, season: 1 },
+  hour: { window: 4, season: 24 },
+  day: { window: 4, season: 7 },
+  week: { window: 8, season: 1 },
+  month: { window: 6, season: 1 }
+};
+
+export const ANOMALY_METRICS: AnomalyMetric[] = ['calls', 'minutes', 'cost', 'avgDuration', 'costPerCall'];
+
+export const anomalyMetricLabels: Record<AnomalyMetric, string> = {
+  calls: 'Calls',
+  minutes: 'Minutes',
+  cost: 'Cost',
+  avgDuration: 'Avg duration',
+  costPerCall: 'Cost per call'
+};
+
+// Totals are only comparable for whole buckets, ratios also for the one in progress
+const volumeMetrics: AnomalyMetric[] = ['calls', 'minutes', 'cost'];
+
+/**
+ * Get a metric's value in a bucket, null when it is undefined or too noisy (ratios of a bucket with few calls)
+ */
+const getMetricValue = (bucket: CallAnalytics, metric: AnomalyMetric): number | null => {
+  switch (metric) {
+    case 'avgDuration':
+      return bucket.calls >= MIN_CALLS_FOR_RATIOS ? bucket.avgDuration : null;
+    case 'costPerCall':
+      return bucket.calls >= MIN_CALLS_FOR_RATIOS ? bucket.cost / bucket.calls : null;
+    default:
+      return bucket[metric];
+  }
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Get where a series has to start for the first bucket of a range to have a full baseline
+ * The baseline is cut short when the longer series would have more buckets than
+ * the granularity allows, as it would then be fetched with coarser buckets
+ * @param startDate Start of the range anomalies are wanted for
+ * @param endDate End of the range
+ * @param granularity Bucket size
+ * @param timeZone IANA timezone buckets are aligned to
+ */
+export const getAnomalyBaselineStart = (startDate: Date, endDate: Date, granularity: Granularity, timeZone: string): Date => {
+  const { window, season } = baselines[granularity];
+  const bucketMs = getNextBucket(getBucketStart(startDate, granularity, timeZone), granularity, timeZone).getTime() -
+    getBucketStart(startDate, granularity, timeZone).getTime();
+  const baselineStart = new Date(Math.max(
+    startDate.getTime() - window * season * bucketMs,
+    endDate.getTime() - (MAX_BUCKETS - 1) * bucketMs
+  ));
+  // Bucket lengths vary (e.g. months), fall back to no earlier baseline if still too long
+  return baselineStart < startDate && isGranularityAllowed(baselineStart, endDate, granularity) ? baselineStart : startDate;
+};
+
+/**
+ * Options for anomaly detection
+ */
+export interface DetectAnomaliesOptions {
+  /** IANA timezone buckets are aligned to */
+  timeZone?: string;
+  /** Only flag buckets starting at or after this date, earlier ones are baseline only */
+  from?: Date;
+  /** Current time, totals of the bucket it falls in are incomplete and not judged */
+  now?: Date;
+}
+
+/**
+ * Flag buckets whose metrics are far from a rolling baseline
+ * Each bucket is compared with the median of the same bucket in previous
+ * seasons, scaled by their median absolute deviation, so single outliers
+ * in the baseline don't hide or cause anomalies
+ * @param series Analytics series in chronological order with no gaps
+ * @param granularity Bucket size of the series
+ * @param options Detection options
+ * @returns Anomalies, oldest first
+ */
+export const detectAnomalies = (
+  series: CallAnalytics[],
+  granularity: Granularity,
+  options: DetectAnomaliesOptions = {}
+): Anomaly[] => {
+  const { timeZone = 'UTC', from, now = new Date() } = options;
+  const { window, season } = baselines[granularity];
+  const anomalies: Anomaly[] = [];
+
+  series.forEach((bucket, index) => {
+    const bucketStart = new Date(bucket.date);
+    if (from && bucketStart.getTime() < from.getTime()) {
+      return;
+    }
+    const isComplete = getNextBucket(bucketStart, granularity, timeZone).getTime() <= now.getTime();
+
+    ANOMALY_METRICS.forEach(metric => {
+      const value = getMetricValue(bucket, metric);
+      if (value === null || (!isComplete && volumeMetrics.includes(metric))) {
+        return;
+      }
+
+      const history: number[] = [];
+      const historyCalls: number[] = [];
+      for (let k = 1; k <= window && index - k * season >= 0; k++) {
+        const previous = getMetricValue(series[index - k * season], metric);
+        if (previous !== null) {
+          history.push(previous);
+          historyCalls.push(series[index - k * season].calls);
+        }
+      }
+      if (history.length < MIN_BASELINE || history.every(item => item === 0)) {
+        // Too little history, or none with any calls (e.g. before the first call)
+        return;
+      }
+
+      const baseline = median(history);
+      const spread = Math.max(
+        MAD_TO_STD_DEV * median(history.map(item => Math.abs(item - baseline))),
+        MIN_RELATIVE_SPREAD * Math.abs(baseline),
+        // Totals vary at least as much as random call arrivals make them
+        volumeMetrics.includes(metric) ? Math.abs(baseline) / Math.sqrt(Math.max(median(historyCalls), 1)) : 0
+      );
+      if (spread === 0) {
+        return;
+      }
+
+      const score = (value - baseline) / spread;
+      const severity: AnomalySeverity | null = Math.abs(score) >= ANOMALY_THRESHOLDS.critical
+        ? 'critical'
+        : Math.abs(score) >= ANOMALY_THRESHOLDS.warning ? 'warning' : null;
+      if (severity) {
+        anomalies.push({ date: bucket.date, metric, value, baseline, score, severity });
+      }
+    });
+  });
+
+  return anomalies;
+};
+
+/**
+ * Format a metric value for display
+ */
+export const formatMetricValue = (metric: AnomalyMetric, value: number): string => {
+  switch (metric) {
+    case 'cost':
+    case 'costPerCall':
+      return formatCurrency(value);
+    case 'minutes':
+      return `${value.toFixed(1)} min`;
+    case 'avgDuration':
+      return `${value.toFixed(2)} min`;
+    default:
+      return Math.round(value).toLocaleString();
+  }
+};
+
+/**
+ * Describe an anomaly, e.g. "Cost per call spiked to $0.45 (expected around $0.12) – October 3, 2026"
+ */
+export const describeAnomaly = (anomaly: Anomaly, granularity: Granularity, timeZone: string): string => {
+  const change = anomaly.score > 0 ? 'spiked to' : 'dropped to';
+  const when = formatBucket(anomaly.date, granularity, 'tooltip', timeZone);
+  return `${anomalyMetricLabels[anomaly.metric]} ${change} ${formatMetricValue(anomaly.metric, anomaly.value)} ` +
+    `(expected around ${formatMetricValue(anomaly.metric, anomaly.baseline)}) – ${when}`;
+};
@@ -0,0 +1,131 @@
+import { CallFilters, Granularity } from '../types/api';
+import { Budget, BudgetLevel, BudgetPeriod, BudgetStatus } from '../types/budget';
+import { startOfZonedDay, startOfZonedMonth, getZonedParts, zonedTimeToDate } from './timezone';
+import { formatCurrency, formatDateTime } from './formatters';
+
+/** Share of a budget spent before a warning is shown */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+// Average month length, for comparing monthly budgets with other bucket sizes
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// Length of each bucket size in days
+const BUCKET_DAYS: Record<Granularity, number> = {
+  minute: 1 / (24 * 60),
+  hour: 1 / 24,
+  day: 1,
+  week: 7,
+  month: DAYS_PER_MONTH
+};
+
+/**
+ * Get the current period of a budget, as seen in a timezone
+ * @param period Budget period
+ * @param now Reference time
+ * @param timeZone IANA timezone periods are aligned to
+ * @returns Start and end of the period containing now
+ */
+export const getBudgetPeriod = (period: BudgetPeriod, now: Date, timeZone: string): { start: Date; end: Date } => {
+  if (period === 'month') {
+    return { start: startOfZonedMonth(now, timeZone), end: startOfZonedMonth(now, timeZone, 1) };
+  }
+  const { year, month, day } = getZonedParts(now, timeZone);
+  return { start: startOfZonedDay(now, timeZone), end: zonedTimeToDate({ year, month, day: day + 1 }, timeZone) };
+};
+
+/**
+ * Classify spending against a budget
+ */
+export const getBudgetLevel = (ratio: number): BudgetLevel => {
+  if (ratio >= 1) {
+    return 'critical';
+  }
+  return ratio >= BUDGET_WARNING_RATIO ? 'warning' : 'ok';
+};
+
+/**
+ * Compare spending in a budget's current period against the budget
+ * The burn rate is the average spend per millisecond since the period started
+ * @param budget Budget
+ * @param spent Spent so far in the current period
+ * @param now Reference time
+ * @param timeZone IANA timezone periods are aligned to
+ * @returns Status of the budget
+ */
+export const evaluateBudget = (budget: Budget, spent: number, now: Date, timeZone: string): BudgetStatus => {
+  const { start, end } = getBudgetPeriod(budget.period, now, timeZone);
+  const elapsed = Math.max(1, now.getTime() - start.getTime());
+  const burnRate = spent / elapsed;
+  const ratio = budget.amount > 0 ? spent / budget.amount : 0;
+
+  let exhaustedAt: Date | null = null;
+  if (spent >= budget.amount) {
+    exhaustedAt = now;
+  } else if (burnRate > 0) {
+    const runsOutAt = now.getTime() + (budget.amount - spent) / burnRate;
+    exhaustedAt = runsOutAt < end.getTime() ? new Date(runsOutAt) : null;
+  }
+
+  return {
+    budget,
+    spent,
+    ratio,
+    level: getBudgetLevel(ratio),
+    periodStart: start,
+    periodEnd: end,
+    projectedSpend: burnRate * (end.getTime() - start.getTime()),
+    exhaustedAt
+  };
+};
+
+/**
+ * Scale a budget to the size of a chart bucket, e.g. a daily budget of $10
+ * is $70 per weekly bucket
+ * @param budget Budget
+ * @param granularity Chart bucket size
+ * @returns Budget per bucket
+ */
+export const getBudgetPerBucket = (budget: Budget, granularity: Granularity): number => {
+  const budgetDays = budget.period === 'month' ? DAYS_PER_MONTH : 1;
+  return (budget.amount / budgetDays) * BUCKET_DAYS[granularity];
+};
+
+/**
+ * Check whether a budget covers exactly the calls shown
+ * Overall budgets apply when no assistant filter is set, assistant budgets
+ * when only that assistant is selected. Budgets count calls of every end
+ * reason, so none apply while end reasons are filtered
+ */
+export const budgetMatchesFilter = (budget: Budget, filters: CallFilters): boolean => {
+  const { assistants } = filters;
+  if (filters.endReasonCategories?.length) {
+    return false;
+  }
+  if (!assistants?.length) {
+    return !budget.assistant;
+  }
+  return assistants.length === 1 && budget.assistant === assistants[0];
+};
+
+/**
+ * Describe a budget, e.g. "Monthly budget for Order Status"
+ */
+export const describeBudget = (status: BudgetStatus): string => {
+  const period = status.budget.period === 'month' ? 'Monthly' : 'Daily';
+  return status.budget.assistant ? `${period} budget for ${status.budget.assistant}` : `${period} budget`;
+};
+
+/**
+ * Describe when a budget runs out or how much will be spent by the end of its period
+ */
+export const describeProjection = (status: BudgetStatus, timeZone: string): string => {
+  if (status.level === 'critical') {
+    return status.spent > status.budget.amount
+      ? `Over budget by ${formatCurrency(status.spent - status.budget.amount)}.`
+      : 'Budget used up.';
+  }
+  if (status.exhaustedAt) {
+    return `At the current burn rate it runs out around ${formatDateTime(status.exhaustedAt.toISOString(), timeZone)}.`;
+  }
+  return `Projected spend for the period: ${formatCurrency(status.projectedSpend)}.`;
+};
@@ -0,0 +1,98 @@
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells containing commas, newlines and escaped quotes
+ * @param text CSV text
+ * @returns Array of rows, each an array of cell values
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  // Last row may not end with a newline
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+};
+
+/**
+ * Parse CSV text with a header row into objects keyed by column name
+ * @param text CSV text
+ * @returns Array of objects, one per data row
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) {
+    return [];
+  }
+  return rows.map(row =>
+    Object.fromEntries(header.map((column, index) => [column.trim(), row[index] ?? '']))
+  );
+};
+
+/**
+ * Quote a CSV cell when it contains a comma, quote or line break
+ */
+const formatCsvCell = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Format rows of cells as CSV text
+ * @param rows Array of rows, each an array of cell values
+ * @returns CSV text, each row ending with a line break
+ */
+export const toCsv = (rows: (string | number | null | undefined)[][]): string => {
+  return rows.map(row => `${row.map(formatCsvCell).join(',')}\r\n`).join('');
+};
+
+/**
+ * Prefix text starting with `=`, `+`, `-`, `@`, a tab or a carriage return with
+ * a quote, so spreadsheet apps opening the CSV show it as text instead of
+ * running it as a formula
+ * Numbers and phone numbers like `+15551234567` or `-12.5` are kept as they
+ * are, as without letters they can't call functions or reference cells
+ * @param value Cell value
+ * @returns Value safe to write to a CSV cell
+ */
+export const escapeFormula = <T extends string | number | null | undefined>(value: T): T | string => {
+  if (typeof value !== 'string' || !/^[=+\-@\t\r]/.test(value) || /^[+-]?\d[\d\s().-]*$/.test(value)) {
+    return value;
+  }
+  return `'${value}`;
+};
@@ -0,0 +1,66 @@
+import { getZonedParts } from './timezone';
+
+/**
+ * Get the calendar day a date falls on in a timezone, as a local midnight
+ * The date picker works in browser local time, so calendar days are passed to
+ * it this way and converted back to instants in the selected timezone
+ * @param date Date to convert
+ * @param timeZone IANA timezone the calendar day is taken in
+ * @returns Local midnight of the same calendar day
+ */
+export const toCalendarDay = (date: Date, timeZone: string): Date => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Check a range of calendar days, as picked in the date picker
+ * @param start First day of the range
+ * @param end Last day of the range
+ * @param today Current calendar day
+ * @param firstDay Day of the earliest call, when the data source knows it
+ * @returns Error message, null when the range is valid
+ */
+export const validateRange = (start: Date | null, end: Date | null, today: Date, firstDay: Date | null): string | null => {
+  if (!start || !end) {
+    return 'Select a start and an end date';
+  }
+  if (end.getTime() < start.getTime()) {
+    return 'End date must be on or after the start date';
+  }
+  if (end.getTime() > today.getTime()) {
+    return 'End date cannot be in the future';
+  }
+  if (firstDay && start.getTime() < firstDay.getTime()) {
+    return `There are no calls before ${firstDay.toLocaleDateString()}`;
+  }
+  return null;
+};
+
+/**
+ * Check a custom range given as instants, e.g. restored from a shared link,
+ * with the same rules as the date picker
+ * @param startDate Start of the range
+ * @param endDate End of the range
+ * @param timeZone IANA timezone calendar days are taken in
+ * @param firstCallDate Time of the earliest call, when the data source knows it
+ * @param now Current time
+ * @returns Error message, null when the range is valid
+ */
+export const validateCustomRange = (
+  startDate: Date,
+  endDate: Date,
+  timeZone: string,
+  firstCallDate?: Date,
+  now: Date = new Date()
+): string | null => {
+  if (endDate.getTime() < startDate.getTime()) {
+    return 'End date must be on or after the start date';
+  }
+  return validateRange(
+    toCalendarDay(startDate, timeZone),
+    toCalendarDay(endDate, timeZone),
+    toCalendarDay(now, timeZone),
+    firstCallDate ? toCalendarDay(firstCallDate, timeZone) : null
+  );
+};
@@ -0,0 +1,58 @@
+import { EndReasonCategory } from '../types/api';
+
+/** End reason categories in display order */
+export const END_REASON_CATEGORIES: EndReasonCategory[] = ['success', 'customerHangup', 'transfer', 'timeout', 'error', 'other'];
+
+/** Display names of the end reason categories */
+export const endReasonCategoryLabels: Record<EndReasonCategory, string> = {
+  success: 'Success',
+  customerHangup: 'Customer Hangup',
+  transfer: 'Transfer',
+  timeout: 'Timeout',
+  error: 'Error',
+  other: 'Other'
+};
+
+// Calls that never reached a person, e.g. `voicemail` or `customer-did-not-answer`
+const NOT_CONNECTED_REASONS = ['voicemail', 'customer-busy', 'customer-did-not-answer'];
+
+/**
+ * Group a voice platform end reason into a broad category
+ * Vapi reports reasons like `assistant-ended-call`, `silence-timed-out` or
+ * `pipeline-error-openai-llm-failed`, newer versions prefix them with the
+ * call phase (e.g. `call.in-progress.error-...`). The Postgres function
+ * end_reason_category in supabase/migrations does the same, keep them in step
+ * @param endReason End reason of a call
+ * @returns Category of the end reason, `other` when it is not recognized
+ */
+export const categorizeEndReason = (endReason: string): EndReasonCategory => {
+  const reason = endReason.toLowerCase();
+
+  if (/error|failed|fault|worker-(shutdown|died)/.test(reason)) {
+    return 'error';
+  }
+  if (/forward|transfer/.test(reason)) {
+    return 'transfer';
+  }
+  if (/timed-out|timeout|max-duration/.test(reason)) {
+    return 'timeout';
+  }
+  if (NOT_CONNECTED_REASONS.some(notConnected => reason.endsWith(notConnected))) {
+    return 'other';
+  }
+  if (reason.includes('customer-ended') || reason.includes('customer-hung-up')) {
+    return 'customerHangup';
+  }
+  if (reason.includes('assistant-')) {
+    return 'success';
+  }
+  return 'other';
+};
+
+/**
+ * Make an end reason readable, e.g. `silence-timed-out` becomes `Silence timed out`
+ */
+export const formatEndReason = (endReason: string): string => {
+  const words = endReason.replace(/^call\.[a-z-]+\./, '').replace(/[-_.]+/g, ' ').trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : 'Unknown';
+};
@@ -0,0 +1,364 @@
+import { CallAnalytics, Granularity } from '../types/api';
+import { ComparedAnalytics } from './metrics';
+import { getBucketStart, getNextBucket } from './timeBuckets';
+import { getZonedParts, startOfZonedDay, startOfZonedMonth, zonedTimeToDate } from './timezone';
+
+// Two-sided 80% prediction interval
+const INTERVAL_Z = 1.2816;
+
+// Fewest days of history needed before weekday effects are estimated
+const MIN_SEASONAL_DAYS = 14;
+
+// Fewest days of history needed for any forecast
+const MIN_HISTORY_DAYS = 3;
+
+/** Days of history the forecast is fitted on, eight full weeks */
+export const FORECAST_HISTORY_DAYS = 56;
+
+/** Forecast horizons offered, in days */
+export const FORECAST_HORIZONS = [7, 14, 30];
+
+/**
+ * Forecast value of a metric with its prediction interval
+ */
+export interface ForecastBand {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Forecast metrics for one bucket
+ */
+export interface ForecastBucket {
+  /** Start of the time bucket in ISO format */
+  date: string;
+  calls: ForecastBand;
+  minutes: ForecastBand;
+  cost: ForecastBand;
+  avgDuration: ForecastBand;
+}
+
+/**
+ * Chart bucket with actual values, a forecast, or both where they meet
+ */
+export type ForecastChartPoint = Partial<ComparedAnalytics> & {
+  date: string;
+  forecast?: ForecastBucket;
+};
+
+/**
+ * Linear trend plus an additive effect for each day of the week
+ */
+interface SeasonalTrendModel {
+  intercept: number;
+  slope: number;
+  /** Effect of each weekday, Sunday first, summing to zero */
+  weekdayEffects: number[];
+  /** Standard deviation of what the model does not explain */
+  residualStdDev: number;
+  /** Mean and spread of the day indexes the model was fitted on */
+  meanIndex: number;
+  sumSquaredIndex: number;
+  sampleSize: number;
+}
+
+type ForecastMetric = 'calls' | 'minutes' | 'cost';
+
+const getWeekday = (date: Date, timeZone: string): number => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * Fit a straight line by least squares
+ */
+const fitLine = (values: number[]): { intercept: number; slope: number } => {
+  const n = values.length;
+  const meanIndex = (n - 1) / 2;
+  const meanValue = values.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, index) => {
+    covariance += (index - meanIndex) * (value - meanValue);
+    variance += (index - meanIndex) ** 2;
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+  return { intercept: meanValue - slope * meanIndex, slope };
+};
+
+/**
+ * Fit trend and weekday effects to a daily series
+ * The trend is fitted, the weekday effects estimated from what it leaves
+ * over, and the trend refitted without the weekday effects
+ * @param values Daily values, oldest first
+ * @param weekdays Weekday of each value, 0 for Sunday
+ */
+const fitSeasonalTrend = (values: number[], weekdays: number[]): SeasonalTrendModel => {
+  const n = values.length;
+  const useSeasonality = n >= MIN_SEASONAL_DAYS;
+  let { intercept, slope } = fitLine(values);
+  let weekdayEffects = new Array(7).fill(0);
+
+  if (useSeasonality) {
+    const sums = new Array(7).fill(0);
+    const counts = new Array(7).fill(0);
+    values.forEach((value, index) => {
+      sums[weekdays[index]] += value - (intercept + slope * index);
+      counts[weekdays[index]] += 1;
+    });
+    const rawEffects = sums.map((sum, weekday) => counts[weekday] > 0 ? sum / counts[weekday] : 0);
+    const meanEffect = rawEffects.reduce((sum, effect) => sum + effect, 0) / 7;
+    weekdayEffects = rawEffects.map(effect => effect - meanEffect);
+    ({ intercept, slope } = fitLine(values.map((value, index) => value - weekdayEffects[weekdays[index]])));
+  }
+
+  const squaredErrors = values.reduce((sum, value, index) => {
+    const fitted = intercept + slope * index + weekdayEffects[weekdays[index]];
+    return sum + (value - fitted) ** 2;
+  }, 0);
+  const degreesOfFreedom = Math.max(1, n - 2 - (useSeasonality ? 6 : 0));
+  const meanIndex = (n - 1) / 2;
+
+  return {
+    intercept,
+    slope,
+    weekdayEffects,
+    residualStdDev: Math.sqrt(squaredErrors / degreesOfFreedom),
+    meanIndex,
+    sumSquaredIndex: values.reduce((sum, _, index) => sum + (index - meanIndex) ** 2, 0),
+    sampleSize: n
+  };
+};
+
+/**
+ * Predict a day with the model, returning the value and the half-width of its interval
+ */
+const predict = (model: SeasonalTrendModel, index: number, weekday: number): { value: number; halfWidth: number } => {
+  const value = model.intercept + model.slope * index + model.weekdayEffects[weekday];
+  const leverage = model.sumSquaredIndex > 0 ? (index - model.meanIndex) ** 2 / model.sumSquaredIndex : 0;
+  const standardError = model.residualStdDev * Math.sqrt(1 + 1 / model.sampleSize + leverage);
+  return { value, halfWidth: INTERVAL_Z * standardError };
+};
+
+const toBand = (value: number, halfWidth: number): ForecastBand => ({
+  value: Math.max(0, value),
+  lower: Math.max(0, value - halfWidth),
+  upper: Math.max(0, value + halfWidth)
+});
+
+/**
+ * Average duration band, derived from the minutes and calls forecasts
+ */
+const toAvgDurationBand = (minutes: ForecastBand, calls: ForecastBand): ForecastBand => {
+  if (calls.value <= 0) {
+    return { value: 0, lower: 0, upper: 0 };
+  }
+  return {
+    value: minutes.value / calls.value,
+    lower: minutes.lower / calls.value,
+    upper: minutes.upper / calls.value
+  };
+};
+
+/**
+ * Get the range of daily history a forecast starting today is fitted on
+ * The range ends before today, whose calls are still coming in
+ * @param now Reference time
+ * @param timeZone IANA timezone days are aligned to
+ */
+export const getForecastHistoryRange = (now: Date, timeZone: string): { startDate: Date; endDate: Date } => {
+  const { year, month, day } = getZonedParts(now, timeZone);
+  return {
+    startDate: zonedTimeToDate({ year, month, day: day - FORECAST_HISTORY_DAYS }, timeZone),
+    endDate: new Date(startOfZonedDay(now, timeZone).getTime() - 1)
+  };
+};
+
+/**
+ * Get where a forecast shown at a granularity should stop
+ * The horizon is rounded up to the end of the bucket it ends in, so the
+ * last forecast week or month isn't cut short
+ * @param firstDay Start of the first forecast day
+ * @param days Forecast horizon in days
+ * @param granularity Chart bucket size, at least a day
+ * @param timeZone IANA timezone buckets are aligned to
+ * @returns Start of the first bucket after the forecast
+ */
+export const getForecastEnd = (firstDay: Date, days: number, granularity: Granularity, timeZone: string): Date => {
+  const { year, month, day } = getZonedParts(firstDay, timeZone);
+  const lastDay = zonedTimeToDate({ year, month, day: day + days - 1 }, timeZone);
+  return getNextBucket(getBucketStart(lastDay, granularity, timeZone), granularity, timeZone);
+};
+
+/**
+ * Forecast daily calls, minutes and cost from a daily history
+ * @param history Daily analytics before the first forecast day, oldest first
+ * @param firstDay Start of the first forecast day
+ * @param until Forecast days starting before this instant
+ * @param timeZone IANA timezone days are aligned to
+ * @returns One bucket per forecast day, empty when the history is too short
+ */
+export const forecastDaily = (
+  history: CallAnalytics[],
+  firstDay: Date,
+  until: Date,
+  timeZone: string
+): ForecastBucket[] => {
+  if (history.length < MIN_HISTORY_DAYS) {
+    return [];
+  }
+
+  const weekdays = history.map(item => getWeekday(new Date(item.date), timeZone));
+  const metrics: ForecastMetric[] = ['calls', 'minutes', 'cost'];
+  const models = Object.fromEntries(metrics.map(metric => [
+    metric,
+    fitSeasonalTrend(history.map(item => item[metric]), weekdays)
+  ])) as Record<ForecastMetric, SeasonalTrendModel>;
+
+  const result: ForecastBucket[] = [];
+  let day = firstDay;
+  for (let index = history.length; day.getTime() < until.getTime(); index++) {
+    const weekday = getWeekday(day, timeZone);
+    const [calls, minutes, cost] = metrics.map(metric => {
+      const { value, halfWidth } = predict(models[metric], index, weekday);
+      return toBand(value, halfWidth);
+    });
+    result.push({
+      date: day.toISOString(),
+      calls,
+      minutes,
+      cost,
+      avgDuration: toAvgDurationBand(minutes, calls)
+    });
+    day = getNextBucket(day, 'day', timeZone);
+  }
+  return result;
+};
+
+/**
+ * Combine daily forecasts into chart buckets projecting each bucket's total
+ * A bucket that started before the forecast (e.g. the current week) adds the
+ * actual days it already has. Interval half-widths are added in quadrature,
+ * treating the days' errors as independent
+ * @param daily Daily forecast buckets
+ * @param history Daily analytics before the first forecast day
+ * @param granularity Chart bucket size, at least a day
+ * @param timeZone IANA timezone buckets are aligned to
+ */
+export const groupForecast = (
+  daily: ForecastBucket[],
+  history: CallAnalytics[],
+  granularity: Granularity,
+  timeZone: string
+): ForecastBucket[] => {
+  if (daily.length === 0) {
+    return [];
+  }
+
+  const groups = new Map<string, ForecastBucket[]>();
+  daily.forEach(bucket => {
+    const key = getBucketStart(new Date(bucket.date), granularity, timeZone).toISOString();
+    groups.set(key, [...(groups.get(key) || []), bucket]);
+  });
+
+  const firstDay = new Date(daily[0].date).getTime();
+  const firstBucket = getBucketStart(new Date(daily[0].date), granularity, timeZone).getTime();
+  const actualsSoFar = history.filter(item => {
+    const time = new Date(item.date).getTime();
+    return time >= firstBucket && time < firstDay;
+  });
+
+  return [...groups.entries()].map(([date, buckets], index) => {
+    const actuals = index === 0 ? actualsSoFar : [];
+    const [calls, minutes, cost] = (['calls', 'minutes', 'cost'] as ForecastMetric[]).map(metric => {
+      const value = actuals.reduce((sum, item) => sum + item[metric], 0) +
+        buckets.reduce((sum, bucket) => sum + bucket[metric].value, 0);
+      const halfWidth = Math.sqrt(buckets.reduce((sum, bucket) => {
+        return sum + ((bucket[metric].upper - bucket[metric].lower) / 2) ** 2;
+      }, 0));
+      return toBand(value, halfWidth);
+    });
+    return { date, calls, minutes, cost, avgDuration: toAvgDurationBand(minutes, calls) };
+  });
+};
+
+/**
+ * Extend chart data with forecast buckets
+ * A bucket present in both (e.g. the current, unfinished week) keeps its
+ * actual values and carries its projected total as the forecast
+ * @param chartData Chart buckets with actual values
+ * @param forecast Forecast buckets at the chart's bucket size
+ */
+export const appendForecast = (chartData: ComparedAnalytics[], forecast: ForecastBucket[]): ForecastChartPoint[] => {
+  const byDate = new Map(forecast.map(bucket => [new Date(bucket.date).getTime(), bucket]));
+  const points: ForecastChartPoint[] = chartData.map(item => ({
+    ...item,
+    forecast: byDate.get(new Date(item.date).getTime())
+  }));
+
+  const lastActual = chartData.length > 0 ? new Date(chartData[chartData.length - 1].date).getTime() : -Infinity;
+  forecast
+    .filter(bucket => new Date(bucket.date).getTime() > lastActual)
+    .forEach(bucket => points.push({ date: bucket.date, forecast: bucket }));
+
+  // Start the forecast line at the last actual bucket so the two connect
+  const lastActualPoint = points[chartData.length - 1];
+  if (lastActualPoint && !lastActualPoint.forecast && points.length > chartData.length) {
+    const { calls = 0, minutes = 0, cost = 0, avgDuration = 0 } = lastActualPoint;
+    const exact = (value: number): ForecastBand => ({ value, lower: value, upper: value });
+    lastActualPoint.forecast = {
+      date: lastActualPoint.date,
+      calls: exact(calls),
+      minutes: exact(minutes),
+      cost: exact(cost),
+      avgDuration: exact(avgDuration)
+    };
+  }
+
+  return points;
+};
+
+/**
+ * Projected totals for the current month
+ */
+export interface MonthProjection {
+  calls: number;
+  minutes: number;
+  cost: number;
+  avgDuration: number;
+}
+
+/**
+ * Project end-of-month totals from actuals so far and the daily forecast
+ * Days before today count as actuals, today and the rest of the month as forecast
+ * @param history Daily analytics covering at least the month so far
+ * @param daily Daily forecast starting today
+ * @param now Reference time
+ * @param timeZone IANA timezone days and months are aligned to
+ */
+export const projectEndOfMonth = (
+  history: CallAnalytics[],
+  daily: ForecastBucket[],
+  now: Date,
+  timeZone: string
+): MonthProjection => {
+  const monthStart = startOfZonedMonth(now, timeZone).getTime();
+  const monthEnd = startOfZonedMonth(now, timeZone, 1).getTime();
+  const today = startOfZonedDay(now, timeZone).getTime();
+
+  const actuals = history.filter(item => {
+    const time = new Date(item.date).getTime();
+    return time >= monthStart && time < today;
+  });
+  const predicted = daily.filter(bucket => {
+    const time = new Date(bucket.date).getTime();
+    return time >= today && time < monthEnd;
+  });
+
+  const calls = actuals.reduce((sum, item) => sum + item.calls, 0) + predicted.reduce((sum, bucket) => sum + bucket.calls.value, 0);
+  const minutes = actuals.reduce((sum, item) => sum + item.minutes, 0) + predicted.reduce((sum, bucket) => sum + bucket.minutes.value, 0);
+  const cost = actuals.reduce((sum, item) => sum + item.cost, 0) + predicted.reduce((sum, bucket) => sum + bucket.cost.value, 0);
+
+  return { calls, minutes, cost, avgDuration: calls > 0 ? minutes / calls : 0 };
+};
@@ -1,21 +1,29 @@
+import { Granularity } from '../types/api';
+
 /**
  * Format a date string to a more user-friendly format
  * @param dateString ISO date string
  * @param format Format type
+ * @param timeZone IANA timezone to show the date in, browser time when omitted
  * @returns Formatted date string
  */
-export const formatDate = (dateString: string, format: 'short' | 'medium' | 'long' = 'medium'): string => {
+export const formatDate = (
+  dateString: string,
+  format: 'short' | 'medium' | 'long' = 'medium',
+  timeZone?: string
+): string => {
   const date = new Date(dateString);
   
   switch (format) {
     case 'short':
-      return date.toLocaleDateString();
+      return date.toLocaleDateString(undefined, { timeZone });
     case 'long':
       return date.toLocaleDateString(undefined, {
         weekday: 'long',
         year: 'numeric',
         month: 'long',
         day: 'numeric',
+        timeZone
       });
     case 'medium':
     default:
@@ -23,6 +31,7 @@ export const formatDate = (dateString: string, format: 'short' | 'medium' | 'lon
         year: 'numeric',
         month: 'short',
         day: 'numeric',
+        timeZone
       });
   }
 };
@@ -30,29 +39,120 @@ export const formatDate = (dateString: string, format: 'short' | 'medium' | 'lon
 /**
  * Format a timestamp to include time
  * @param dateString ISO date string
+ * @param timeZone IANA timezone to show the time in, browser time when omitted
  * @returns Formatted date and time string
  */
-export const formatDateTime = (dateString: string): string => {
+export const formatDateTime = (dateString: string, timeZone?: string): string => {
   const date = new Date(dateString);
   return date.toLocaleDateString(undefined, {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
     hour: '2-digit',
-    minute: '2-digit'
+    minute: '2-digit',
+    timeZone
   });
 };
 
 /**
- * Format a number as USD currency
+ * Format how long ago a moment was, e.g. "12 seconds ago" or "3 minutes ago"
+ * @param date Moment in the past
+ * @param now Reference time, defaults to the current time
+ * @returns Relative time string
+ */
+export const formatRelativeTime = (date: Date, now: Date = new Date()): string => {
+  const seconds = Math.max(0, Math.round((now.getTime() - date.getTime()) / 1000));
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+  if (seconds < 5) {
+    return 'just now';
+  }
+  if (seconds < 60) {
+    return format.format(-seconds, 'second');
+  }
+  if (seconds < 60 * 60) {
+    return format.format(-Math.floor(seconds / 60), 'minute');
+  }
+  return format.format(-Math.floor(seconds / 3600), 'hour');
+};
+
+/**
+ * Format the start of an analytics bucket for chart axes and tooltips
+ * @param dateString ISO date string of the bucket start
+ * @param granularity Bucket size
+ * @param variant 'tick' for compact axis labels, 'tooltip' for full labels
+ * @param timeZone IANA timezone the buckets are aligned to, browser time when omitted
+ * @returns Formatted bucket label
+ */
+export const formatBucket = (
+  dateString: string,
+  granularity: Granularity,
+  variant: 'tick' | 'tooltip' = 'tick',
+  timeZone?: string
+): string => {
+  const date = new Date(dateString);
+  
+  switch (granularity) {
+    case 'minute':
+    case 'hour':
+      return variant === 'tick'
+        ? date.toLocaleTimeString([], { hour: 'numeric', minute: granularity === 'minute' ? '2-digit' : undefined, hour12: true, timeZone }).toUpperCase()
+        : formatDateTime(dateString, timeZone);
+    case 'week':
+      return variant === 'tick'
+        ? date.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone })
+        : `Week of ${formatDate(dateString, 'medium', timeZone)}`;
+    case 'month':
+      return date.toLocaleDateString([], { month: 'short', year: variant === 'tick' ? '2-digit' : 'numeric', timeZone });
+    case 'day':
+    default:
+      return variant === 'tick'
+        ? date.toLocaleDateString([], { month: 'short', day: 'numeric', timeZone })
+        : formatDate(dateString, 'long', timeZone);
+  }
+};
+
+// Currency costs are shown in unless a call asks for another
+let activeCurrency = 'USD';
+
+/**
+ * Get the currency costs are shown in, an ISO 4217 code
+ */
+export const getCurrency = (): string => activeCurrency;
+
+/**
+ * Set the currency costs are shown in, e.g. the active workspace's
+ * @param currency ISO 4217 code, e.g. `EUR`
+ */
+export const setCurrency = (currency: string) => {
+  activeCurrency = currency;
+};
+
+/**
+ * Check whether a string is an ISO 4217 currency code the browser can format
+ */
+export const isValidCurrency = (currency: string): boolean => {
+  if (!/^[A-Za-z]{3}$/.test(currency)) {
+    return false;
+  }
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Format a number as currency
  * @param amount Amount to format
  * @param decimals Number of decimal places
+ * @param currency ISO 4217 code, the active currency by default
  * @returns Formatted currency string
  */
-export const formatCurrency = (amount: number, decimals = 2): string => {
+export const formatCurrency = (amount: number, decimals = 2, currency = activeCurrency): string => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: decimals,
     maximumFractionDigits: decimals
   }).format(amount);
@@ -79,4 +179,20 @@ export const formatDuration = (seconds: number): string => {
   const remainingMinutes = minutes % 60;
   
   return `${hours}:${remainingMinutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-};
\ No newline at end of file
+};
+
+/**
+ * Format an offset into a call as a playback timestamp
+ * @param seconds Seconds since the call started
+ * @returns Timestamp like `1:05` or `1:02:03`
+ */
+export const formatCallOffset = (seconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const remainingSeconds = String(totalSeconds % 60).padStart(2, '0');
+  
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${remainingSeconds}`
+    : `${minutes}:${remainingSeconds}`;
+};
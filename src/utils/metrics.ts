@@ -0,0 +1,93 @@
+import { CallAnalytics } from '../types/api';
+
+/**
+ * Totals shown on the summary cards
+ */
+export interface SummaryMetrics {
+  /** Number of calls */
+  totalCalls: number;
+  /** Total call minutes */
+  totalMinutes: number;
+  /** Total cost */
+  totalCost: number;
+  /** Average call duration in minutes */
+  avgDuration: number;
+}
+
+/**
+ * Change of a metric against the previous period
+ */
+export interface MetricDelta {
+  /** Value in the previous period */
+  previous: number;
+  /** Absolute change */
+  change: number;
+  /** Change in percent, null when the previous value is zero */
+  percentChange: number | null;
+}
+
+/**
+ * Analytics bucket with the matching bucket of the previous period
+ */
+export type ComparedAnalytics = CallAnalytics & {
+  /** Bucket at the same position in the previous period */
+  previous?: CallAnalytics;
+};
+
+/**
+ * Calculate the summary card totals for an analytics series
+ * @param data Analytics series
+ * @returns Summary totals
+ */
+export const summarizeAnalytics = (data: CallAnalytics[]): SummaryMetrics => {
+  const totalCalls = data.reduce((sum, item) => sum + item.calls, 0);
+  const totalMinutes = data.reduce((sum, item) => sum + item.minutes, 0);
+  const totalCost = data.reduce((sum, item) => sum + item.cost, 0);
+
+  // Calculate average duration simply from total minutes divided by total calls
+  const avgDuration = totalCalls > 0 ? Number((totalMinutes / totalCalls).toFixed(2)) : 0;
+
+  return { totalCalls, totalMinutes, totalCost, avgDuration };
+};
+
+/**
+ * Compare a metric with its value in the previous period
+ * @param current Value in the current period
+ * @param previous Value in the previous period
+ * @returns Absolute and relative change
+ */
+export const computeDelta = (current: number, previous: number): MetricDelta => {
+  const change = current - previous;
+  return {
+    previous,
+    change,
+    percentChange: previous !== 0 ? (change / Math.abs(previous)) * 100 : null
+  };
+};
+
+/**
+ * Get the period of equal length directly before a range
+ * @param startDate Start of the range
+ * @param endDate End of the range
+ * @returns The previous period
+ */
+export const getPreviousPeriod = (startDate: Date, endDate: Date): { startDate: Date; endDate: Date } => {
+  const span = endDate.getTime() - startDate.getTime();
+  return {
+    startDate: new Date(startDate.getTime() - span - 1),
+    endDate: new Date(startDate.getTime() - 1)
+  };
+};
+
+/**
+ * Pair each bucket with the bucket at the same position in the previous period
+ * @param current Analytics series for the current period
+ * @param previous Analytics series for the previous period
+ * @returns Current buckets with their previous-period counterparts
+ */
+export const mergeComparisonSeries = (current: CallAnalytics[], previous: CallAnalytics[]): ComparedAnalytics[] => {
+  return current.map((item, index) => ({
+    ...item,
+    previous: previous[index]
+  }));
+};
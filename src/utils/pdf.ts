@@ -0,0 +1,28 @@
+// A4 page size in millimetres
+const PAGE_WIDTH_MM = 210;
+const PAGE_HEIGHT_MM = 297;
+
+/**
+ * Render page elements into a PDF, one element per A4 page, and download it
+ * The PDF libraries are loaded on first use since only reports need them
+ * @param pages Elements laid out at A4 proportions
+ * @param fileName Name of the downloaded file
+ */
+export const downloadPagesAsPdf = async (pages: HTMLElement[], fileName: string): Promise<void> => {
+  const [{ jsPDF }, { default: html2canvas }] = await Promise.all([import('jspdf'), import('html2canvas')]);
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+
+  for (let index = 0; index < pages.length; index++) {
+    const canvas = await html2canvas(pages[index], { scale: 2, backgroundColor: '#ffffff', useCORS: true });
+    // Shrink pages taller than A4 to fit rather than cutting them off
+    const height = Math.min(PAGE_HEIGHT_MM, (canvas.height / canvas.width) * PAGE_WIDTH_MM);
+    const width = (canvas.width / canvas.height) * height;
+
+    if (index > 0) {
+      pdf.addPage();
+    }
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', (PAGE_WIDTH_MM - width) / 2, 0, width, height);
+  }
+
+  pdf.save(fileName);
+};
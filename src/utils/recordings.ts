@@ -0,0 +1,57 @@
+/**
+ * Resolve a call recording URL
+ * Relative URLs are resolved against VITE_RECORDING_BASE_URL, so recordings
+ * can be served from a local file server during development
+ * @param url Recording URL or path from the call record
+ * @param baseUrl Base URL for relative recording paths
+ * @returns Absolute recording URL, undefined when the call has no recording
+ */
+export const resolveRecordingUrl = (
+  url: string | undefined,
+  baseUrl: string | undefined = import.meta.env.VITE_RECORDING_BASE_URL
+): string | undefined => {
+  if (!url) {
+    return undefined;
+  }
+  if (/^[a-z][a-z\d+.-]*:/i.test(url) || !baseUrl) {
+    return url;
+  }
+  return `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+};
+
+/**
+ * Load a recording and reduce it to peak levels for drawing a waveform
+ * Needs the recording to be served with CORS headers, unlike plain playback
+ * @param url Recording URL
+ * @param bars Number of peaks to return
+ * @returns Peak level of each slice of the recording, from 0 to 1
+ */
+export const loadWaveformPeaks = async (url: string, bars: number): Promise<number[]> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load recording: ${response.status}`);
+  }
+
+  const audioContext = new AudioContext();
+  try {
+    const buffer = await audioContext.decodeAudioData(await response.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const sliceSize = Math.max(1, Math.floor(samples.length / bars));
+
+    const peaks: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * sliceSize);
+      for (let i = bar * sliceSize; i < end; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      peaks.push(peak);
+    }
+
+    // Scale so the loudest slice fills the height
+    const loudest = Math.max(...peaks, 0.01);
+    return peaks.map(peak => peak / loudest);
+  } finally {
+    audioContext.close();
+  }
+};
@@ -0,0 +1,30 @@
+/**
+ * Copy URL search params with some of them changed, keeping the rest as they are
+ * @param params Current search params
+ * @param changes New values by name, arrays for repeated params, null to remove a param
+ * @returns Updated search params
+ */
+export const withSearchParams = (
+  params: URLSearchParams,
+  changes: Record<string, string | string[] | null>
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  Object.entries(changes).forEach(([name, value]) => {
+    next.delete(name);
+    (Array.isArray(value) ? value : value === null ? [] : [value]).forEach(item => next.append(name, item));
+  });
+  return next;
+};
+
+/**
+ * Parse an ISO date from a search param
+ * @param value Param value
+ * @returns The date, null when missing or invalid
+ */
+export const parseDateParam = (value: string | null): Date | null => {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
@@ -0,0 +1,148 @@
+import { CallAnalytics, Granularity } from '../types/api';
+import { getZonedParts, zonedTimeToDate } from './timezone';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Most buckets a chart series may have before a granularity is considered too fine */
+export const MAX_BUCKETS = 1500;
+
+/** Granularities from finest to coarsest */
+export const GRANULARITIES: Granularity[] = ['minute', 'hour', 'day', 'week', 'month'];
+
+/**
+ * Get the start of the bucket a date falls into, as seen in a timezone (weeks start on Monday)
+ * @param date Date inside the bucket
+ * @param granularity Bucket size
+ * @param timeZone IANA timezone the buckets are aligned to
+ * @returns Start of the bucket
+ */
+export const getBucketStart = (date: Date, granularity: Granularity, timeZone = 'UTC'): Date => {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  switch (granularity) {
+    case 'minute':
+      return zonedTimeToDate({ year, month, day, hour, minute }, timeZone);
+    case 'hour':
+      return zonedTimeToDate({ year, month, day, hour }, timeZone);
+    case 'week': {
+      const daysSinceMonday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+      return zonedTimeToDate({ year, month, day: day - daysSinceMonday }, timeZone);
+    }
+    case 'month':
+      return zonedTimeToDate({ year, month }, timeZone);
+    case 'day':
+    default:
+      return zonedTimeToDate({ year, month, day }, timeZone);
+  }
+};
+
+/**
+ * Get the start of the bucket following the one starting at the given date
+ * Days, weeks and months follow the wall clock, so they can be 23 or 25 hours
+ * long around DST changes
+ * @param bucketStart Start of a bucket
+ * @param granularity Bucket size
+ * @param timeZone IANA timezone the buckets are aligned to
+ * @returns Start of the next bucket
+ */
+export const getNextBucket = (bucketStart: Date, granularity: Granularity, timeZone = 'UTC'): Date => {
+  if (granularity === 'minute') {
+    return new Date(bucketStart.getTime() + MINUTE_MS);
+  }
+  if (granularity === 'hour') {
+    return new Date(bucketStart.getTime() + HOUR_MS);
+  }
+
+  const { year, month, day } = getZonedParts(bucketStart, timeZone);
+  switch (granularity) {
+    case 'week':
+      return zonedTimeToDate({ year, month, day: day + 7 }, timeZone);
+    case 'month':
+      return zonedTimeToDate({ year, month: month + 1 }, timeZone);
+    case 'day':
+    default:
+      return zonedTimeToDate({ year, month, day: day + 1 }, timeZone);
+  }
+};
+
+/**
+ * Estimate how many buckets a range spans at a granularity
+ */
+export const countBuckets = (startDate: Date, endDate: Date, granularity: Granularity): number => {
+  const span = Math.max(0, endDate.getTime() - startDate.getTime());
+  const bucketSize = {
+    minute: MINUTE_MS,
+    hour: HOUR_MS,
+    day: DAY_MS,
+    week: 7 * DAY_MS,
+    month: 30 * DAY_MS
+  }[granularity];
+  return Math.ceil(span / bucketSize) + 1;
+};
+
+/**
+ * Pick a bucket size that shows useful detail for a date range
+ * @param startDate Start of the range
+ * @param endDate End of the range
+ * @returns Granularity for the range
+ */
+export const pickGranularity = (startDate: Date, endDate: Date): Granularity => {
+  const span = endDate.getTime() - startDate.getTime();
+  if (span <= 6 * HOUR_MS) {
+    return 'minute';
+  }
+  if (span <= 2 * DAY_MS) {
+    return 'hour';
+  }
+  if (span <= 92 * DAY_MS) {
+    return 'day';
+  }
+  if (span <= 366 * DAY_MS) {
+    return 'week';
+  }
+  return 'month';
+};
+
+/**
+ * Check whether a granularity would produce a reasonable number of buckets for a range
+ */
+export const isGranularityAllowed = (startDate: Date, endDate: Date, granularity: Granularity): boolean => {
+  return countBuckets(startDate, endDate, granularity) <= MAX_BUCKETS;
+};
+
+/**
+ * Insert zero-valued buckets for every bucket in the range that has no data
+ * @param data Aggregated buckets, keyed by ISO bucket start
+ * @param startDate Start of the range
+ * @param endDate End of the range
+ * @param granularity Bucket size
+ * @param timeZone IANA timezone the buckets are aligned to
+ * @returns Every bucket in the range in chronological order
+ */
+export const fillBuckets = (
+  data: CallAnalytics[],
+  startDate: Date,
+  endDate: Date,
+  granularity: Granularity,
+  timeZone = 'UTC'
+): CallAnalytics[] => {
+  const byDate = new Map(data.map(item => [new Date(item.date).getTime(), item]));
+  const result: CallAnalytics[] = [];
+
+  for (
+    let bucket = getBucketStart(startDate, granularity, timeZone);
+    bucket.getTime() <= endDate.getTime();
+    bucket = getNextBucket(bucket, granularity, timeZone)
+  ) {
+    result.push(byDate.get(bucket.getTime()) || {
+      date: bucket.toISOString(),
+      calls: 0,
+      minutes: 0,
+      cost: 0,
+      avgDuration: 0
+    });
+  }
+
+  return result;
+};
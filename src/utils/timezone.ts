@@ -0,0 +1,148 @@
+/**
+ * Timezone setting: the browser's zone, UTC, or any IANA zone name
+ */
+export type TimeZoneSetting = 'browser' | string;
+
+/**
+ * Wall-clock date and time parts in a timezone
+ */
+export interface ZonedParts {
+  year: number;
+  /** Month, 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Get the browser's IANA timezone
+ */
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * Resolve a timezone setting to an IANA zone name
+ * @param setting Timezone setting
+ * @returns IANA timezone name
+ */
+export const resolveTimeZone = (setting: TimeZoneSetting): string => {
+  return setting === 'browser' ? getBrowserTimeZone() : setting;
+};
+
+/**
+ * Check whether a string is a timezone the browser knows
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * List the IANA timezones supported by the browser
+ */
+export const listTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
+
+/**
+ * Get the wall-clock parts of an instant in a timezone
+ * @param date Instant
+ * @param timeZone IANA timezone name
+ * @returns Date and time parts as seen in the timezone
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+};
+
+/**
+ * Get a timezone's offset from UTC at an instant, in milliseconds
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Convert wall-clock time in a timezone to an instant
+ * Out-of-range parts roll over (e.g. day 32), and times skipped by a DST
+ * change resolve to the instant after the gap
+ * @param parts Wall-clock parts, month 1-12
+ * @param timeZone IANA timezone name
+ * @returns The instant
+ */
+export const zonedTimeToDate = (parts: Partial<ZonedParts> & { year: number }, timeZone: string): Date => {
+  const asUtc = Date.UTC(
+    parts.year,
+    (parts.month ?? 1) - 1,
+    parts.day ?? 1,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0
+  );
+
+  // The offset at the guessed instant may differ from the offset at the
+  // answer when a DST change lies between them, so correct once more
+  const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+  const secondGuess = asUtc - getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(Math.max(firstGuess, secondGuess));
+};
+
+/**
+ * Get midnight at the start of the day an instant falls on in a timezone
+ */
+export const startOfZonedDay = (date: Date, timeZone: string): Date => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToDate({ year, month, day }, timeZone);
+};
+
+/**
+ * Get midnight at the start of the month an instant falls in, in a timezone
+ * @param date Instant
+ * @param timeZone IANA timezone name
+ * @param monthOffset Months to move from the instant's month, e.g. -1 for the previous month
+ */
+export const startOfZonedMonth = (date: Date, timeZone: string, monthOffset = 0): Date => {
+  const { year, month } = getZonedParts(date, timeZone);
+  return zonedTimeToDate({ year, month: month + monthOffset, day: 1 }, timeZone);
+};
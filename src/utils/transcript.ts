@@ -0,0 +1,110 @@
+import { CallMessage, CallRecord, TranscriptSpeaker, TranscriptTurn } from '../types/api';
+
+// Message roles used by voice platforms, mapped to transcript speakers
+const ROLE_SPEAKERS: Record<string, TranscriptSpeaker> = {
+  bot: 'assistant',
+  assistant: 'assistant',
+  ai: 'assistant',
+  user: 'customer',
+  customer: 'customer',
+  system: 'system',
+  tool_calls: 'tool',
+  tool_call_result: 'tool',
+  tool: 'tool'
+};
+
+// Speaker prefixes of plain-text transcript lines, e.g. `AI: Hello`
+const LINE_PREFIX = /^(AI|Assistant|Bot|User|Customer|System)\s*:\s*/i;
+
+/**
+ * Convert platform messages into transcript turns
+ * Message times are epoch milliseconds, so they are made relative to the
+ * first message when no offset is given
+ */
+const messagesToTurns = (messages: CallMessage[]): TranscriptTurn[] => {
+  const firstTime = messages.find(message => message.time !== undefined)?.time;
+  return messages
+    .filter(message => message.message?.trim())
+    .map(message => ({
+      speaker: ROLE_SPEAKERS[message.role.toLowerCase()] || 'system',
+      text: message.message!.trim(),
+      secondsFromStart: message.secondsFromStart
+        ?? (message.time !== undefined && firstTime !== undefined ? (message.time - firstTime) / 1000 : null)
+    }));
+};
+
+/**
+ * Split a plain-text transcript into turns, joining lines without a speaker
+ * prefix onto the turn before them
+ */
+const textToTurns = (transcript: string): TranscriptTurn[] => {
+  const turns: TranscriptTurn[] = [];
+  transcript.split(/\r?\n/).forEach(line => {
+    const text = line.trim();
+    if (!text) {
+      return;
+    }
+    const prefix = LINE_PREFIX.exec(text);
+    if (prefix) {
+      turns.push({
+        speaker: ROLE_SPEAKERS[prefix[1].toLowerCase()] || 'system',
+        text: text.slice(prefix[0].length),
+        secondsFromStart: null
+      });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].text += `\n${text}`;
+    } else {
+      turns.push({ speaker: 'system', text, secondsFromStart: null });
+    }
+  });
+  return turns;
+};
+
+/**
+ * Get the turn-by-turn transcript of a call
+ * Uses the call's messages when available, since they carry timestamps,
+ * and falls back to the plain-text transcript
+ * @param record Call record
+ * @returns Transcript turns in order, empty when the call has no transcript
+ */
+export const getTranscriptTurns = (record: CallRecord): TranscriptTurn[] => {
+  const turns = record.messages?.length ? messagesToTurns(record.messages) : [];
+  if (turns.length > 0) {
+    return turns;
+  }
+  return record.transcript ? textToTurns(record.transcript) : [];
+};
+
+/**
+ * A search hit inside a transcript
+ */
+export interface TranscriptMatch {
+  /** Index of the turn containing the hit */
+  turn: number;
+  /** Character offset of the hit within the turn text */
+  start: number;
+  /** Character offset just past the hit */
+  end: number;
+}
+
+/**
+ * Find every case-insensitive occurrence of a search term in a transcript
+ * @param turns Transcript turns
+ * @param term Text to search for
+ * @returns Matches in transcript order, empty for a blank term
+ */
+export const findTranscriptMatches = (turns: TranscriptTurn[], term: string): TranscriptMatch[] => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) {
+    return [];
+  }
+
+  const matches: TranscriptMatch[] = [];
+  turns.forEach((turn, index) => {
+    const haystack = turn.text.toLowerCase();
+    for (let start = haystack.indexOf(needle); start !== -1; start = haystack.indexOf(needle, start + needle.length)) {
+      matches.push({ turn: index, start, end: start + needle.length });
+    }
+  });
+  return matches;
+};
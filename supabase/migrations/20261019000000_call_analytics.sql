@@ -0,0 +1,48 @@
+-- Aggregated call analytics for the dashboard
+--
+-- Returns one row per time bucket (minute, hour, day, week or month, aligned
+-- to the given timezone) with the number of calls, total minutes and total
+-- cost, so the dashboard does not have to download every call in the range.
+-- Bucket starts are returned as UTC timestamps.
+-- With group_by_assistant, rows are additionally split per assistant.
+-- Runs with the caller's privileges, so row-level security on calls applies.
+
+create or replace function public.call_analytics(
+  start_date timestamptz default null,
+  end_date timestamptz default null,
+  bucket text default 'day',
+  time_zone text default 'UTC',
+  assistants text[] default null,
+  group_by_assistant boolean default false
+)
+returns table (
+  date text,
+  assistant text,
+  calls bigint,
+  minutes double precision,
+  cost double precision
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    to_char(
+      (date_trunc(bucket, c.created_at at time zone time_zone) at time zone time_zone) at time zone 'UTC',
+      'YYYY-MM-DD"T"HH24:MI:SS"Z"'
+    ) as date,
+    case when group_by_assistant then coalesce(c."Assistant", '') end as assistant,
+    count(*) as calls,
+    coalesce(sum(c.duration), 0)::double precision / 60 as minutes,
+    coalesce(sum(c.cost), 0)::double precision as cost
+  from public.calls c
+  where bucket in ('minute', 'hour', 'day', 'week', 'month')
+    and (start_date is null or c.created_at >= start_date)
+    and (end_date is null or c.created_at <= end_date)
+    and (assistants is null or c."Assistant" = any(assistants))
+  group by 1, 2
+  order by 1, 2;
+$$;
+
+grant execute on function public.call_analytics(timestamptz, timestamptz, text, text, text[], boolean)
+  to anon, authenticated;
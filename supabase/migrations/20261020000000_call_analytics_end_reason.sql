@@ -0,0 +1,51 @@
+-- Split call analytics by end reason
+--
+-- Adds group_by_end_reason to call_analytics, returning one row per bucket and
+-- end reason so the dashboard can chart how calls ended over time. The extra
+-- result column changes the function's signature, so the old version is
+-- dropped first.
+
+drop function if exists public.call_analytics(timestamptz, timestamptz, text, text, text[], boolean);
+
+create or replace function public.call_analytics(
+  start_date timestamptz default null,
+  end_date timestamptz default null,
+  bucket text default 'day',
+  time_zone text default 'UTC',
+  assistants text[] default null,
+  group_by_assistant boolean default false,
+  group_by_end_reason boolean default false
+)
+returns table (
+  date text,
+  assistant text,
+  end_reason text,
+  calls bigint,
+  minutes double precision,
+  cost double precision
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    to_char(
+      (date_trunc(bucket, c.created_at at time zone time_zone) at time zone time_zone) at time zone 'UTC',
+      'YYYY-MM-DD"T"HH24:MI:SS"Z"'
+    ) as date,
+    case when group_by_assistant then coalesce(c."Assistant", '') end as assistant,
+    case when group_by_end_reason then coalesce(c.end_reason, 'unknown') end as end_reason,
+    count(*) as calls,
+    coalesce(sum(c.duration), 0)::double precision / 60 as minutes,
+    coalesce(sum(c.cost), 0)::double precision as cost
+  from public.calls c
+  where bucket in ('minute', 'hour', 'day', 'week', 'month')
+    and (start_date is null or c.created_at >= start_date)
+    and (end_date is null or c.created_at <= end_date)
+    and (assistants is null or c."Assistant" = any(assistants))
+  group by 1, 2, 3
+  order by 1, 2, 3;
+$$;
+
+grant execute on function public.call_analytics(timestamptz, timestamptz, text, text, text[], boolean, boolean)
+  to anon, authenticated;
@@ -0,0 +1,29 @@
+-- Dashboard settings, such as cost budgets
+--
+-- One row per setting, read and upserted by the dashboard when
+-- VITE_SETTINGS_STORE=supabase. Settings are shared by everyone using the
+-- project's API key.
+
+create table if not exists public.dashboard_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.dashboard_settings enable row level security;
+
+create policy "Dashboard settings are readable"
+  on public.dashboard_settings for select
+  to anon, authenticated
+  using (true);
+
+create policy "Dashboard settings are writable"
+  on public.dashboard_settings for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Dashboard settings are updatable"
+  on public.dashboard_settings for update
+  to anon, authenticated
+  using (true)
+  with check (true);
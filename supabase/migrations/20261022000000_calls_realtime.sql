@@ -0,0 +1,16 @@
+-- Live dashboard updates
+--
+-- Supabase Realtime only streams changes of tables in the supabase_realtime
+-- publication. Inserted calls are pushed to dashboards in live mode, subject
+-- to the table's select policies.
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'calls'
+  ) then
+    alter publication supabase_realtime add table public.calls;
+  end if;
+end
+$$;
@@ -0,0 +1,37 @@
+-- Restrict dashboard data to signed-in users
+--
+-- The dashboard sends the signed-in user's JWT instead of the anon key, so
+-- these policies decide what each user sees. Calls are readable by every
+-- signed-in user; to keep tenants apart, replace `using (true)` with a check
+-- against the column identifying the tenant, e.g.
+-- `using (tenant_id = (auth.jwt() -> 'app_metadata' ->> 'tenant_id'))`.
+-- Skip this migration when running with VITE_AUTH_ENABLED=false, as it
+-- locks out the anon key.
+
+alter table public.calls enable row level security;
+
+drop policy if exists "Calls are readable by signed-in users" on public.calls;
+create policy "Calls are readable by signed-in users"
+  on public.calls for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Dashboard settings are readable" on public.dashboard_settings;
+drop policy if exists "Dashboard settings are writable" on public.dashboard_settings;
+drop policy if exists "Dashboard settings are updatable" on public.dashboard_settings;
+
+create policy "Dashboard settings are readable"
+  on public.dashboard_settings for select
+  to authenticated
+  using (true);
+
+create policy "Dashboard settings are writable"
+  on public.dashboard_settings for insert
+  to authenticated
+  with check (true);
+
+create policy "Dashboard settings are updatable"
+  on public.dashboard_settings for update
+  to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,76 @@
+-- Keep tenants' data apart
+--
+-- Replaces the `using (true)` policies of the authenticated_access migration,
+-- under which every signed-in user could read every call. Calls and settings
+-- now belong to a tenant, and users only see their own tenant's rows.
+--
+-- A user's tenant is read from `app_metadata.tenant_id` in their JWT. Only the
+-- service role can set app_metadata, so users can't move themselves into
+-- another tenant. Set it when inviting a user, e.g. through the admin API:
+--
+--   update auth.users
+--     set raw_app_meta_data = raw_app_meta_data || '{"tenant_id": "acme"}'
+--     where email = 'jane@acme.example';
+--
+-- Rows written by whatever ingests calls need their tenant_id filled in;
+-- existing calls have none and are hidden until it is backfilled. Users without
+-- a tenant see nothing. call_analytics runs as the caller and Realtime applies
+-- select policies, so both only return the user's tenant too.
+
+create or replace function public.current_tenant_id()
+returns text
+language sql
+stable
+as $$
+  select nullif(auth.jwt() -> 'app_metadata' ->> 'tenant_id', '');
+$$;
+
+grant execute on function public.current_tenant_id() to authenticated;
+
+-- Calls
+
+alter table public.calls add column if not exists tenant_id text;
+
+create index if not exists calls_tenant_id_created_at_idx
+  on public.calls (tenant_id, created_at);
+
+drop policy if exists "Calls are readable by signed-in users" on public.calls;
+drop policy if exists "Calls are readable by their tenant" on public.calls;
+create policy "Calls are readable by their tenant"
+  on public.calls for select
+  to authenticated
+  using (tenant_id = public.current_tenant_id());
+
+-- Dashboard settings, one set per tenant. The tenant is filled in from the
+-- writer's JWT, so the dashboard's upserts on `key` keep working unchanged
+
+alter table public.dashboard_settings
+  add column if not exists tenant_id text default public.current_tenant_id();
+
+-- Settings saved before tenants existed are given to the placeholder tenant
+-- `default`; move them with `update public.dashboard_settings set tenant_id = ...`
+update public.dashboard_settings set tenant_id = 'default' where tenant_id is null;
+
+alter table public.dashboard_settings alter column tenant_id set not null;
+alter table public.dashboard_settings drop constraint if exists dashboard_settings_pkey;
+alter table public.dashboard_settings add primary key (tenant_id, key);
+
+drop policy if exists "Dashboard settings are readable" on public.dashboard_settings;
+drop policy if exists "Dashboard settings are writable" on public.dashboard_settings;
+drop policy if exists "Dashboard settings are updatable" on public.dashboard_settings;
+
+create policy "Dashboard settings are readable"
+  on public.dashboard_settings for select
+  to authenticated
+  using (tenant_id = public.current_tenant_id());
+
+create policy "Dashboard settings are writable"
+  on public.dashboard_settings for insert
+  to authenticated
+  with check (tenant_id = public.current_tenant_id());
+
+create policy "Dashboard settings are updatable"
+  on public.dashboard_settings for update
+  to authenticated
+  using (tenant_id = public.current_tenant_id())
+  with check (tenant_id = public.current_tenant_id());
@@ -0,0 +1,79 @@
+-- Filter calls by end reason category
+--
+-- The dashboard groups end reasons into categories (success, customerHangup,
+-- transfer, timeout, error, other). end_reason_category() mirrors
+-- categorizeEndReason in src/utils/endReasons.ts, keep the two in step. The
+-- category is stored as a generated column so PostgREST can filter on it, and
+-- call_analytics gains an end_reason_categories parameter. The extra parameter
+-- changes the function's signature, so the old version is dropped first.
+
+create or replace function public.end_reason_category(end_reason text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when reason ~ '(error|failed|fault|worker-(shutdown|died))' then 'error'
+    when reason ~ '(forward|transfer)' then 'transfer'
+    when reason ~ '(timed-out|timeout|max-duration)' then 'timeout'
+    when reason ~ '(voicemail|customer-busy|customer-did-not-answer)$' then 'other'
+    when reason like '%customer-ended%' or reason like '%customer-hung-up%' then 'customerHangup'
+    when reason like '%assistant-%' then 'success'
+    else 'other'
+  end
+  from (select lower(coalesce(nullif(end_reason, ''), 'unknown')) as reason) as normalized;
+$$;
+
+alter table public.calls
+  add column if not exists end_reason_category text
+  generated always as (public.end_reason_category(end_reason)) stored;
+
+create index if not exists calls_end_reason_category_created_at_idx
+  on public.calls (end_reason_category, created_at);
+
+drop function if exists public.call_analytics(timestamptz, timestamptz, text, text, text[], boolean, boolean);
+
+create or replace function public.call_analytics(
+  start_date timestamptz default null,
+  end_date timestamptz default null,
+  bucket text default 'day',
+  time_zone text default 'UTC',
+  assistants text[] default null,
+  group_by_assistant boolean default false,
+  group_by_end_reason boolean default false,
+  end_reason_categories text[] default null
+)
+returns table (
+  date text,
+  assistant text,
+  end_reason text,
+  calls bigint,
+  minutes double precision,
+  cost double precision
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    to_char(
+      (date_trunc(bucket, c.created_at at time zone time_zone) at time zone time_zone) at time zone 'UTC',
+      'YYYY-MM-DD"T"HH24:MI:SS"Z"'
+    ) as date,
+    case when group_by_assistant then coalesce(c."Assistant", '') end as assistant,
+    case when group_by_end_reason then coalesce(c.end_reason, 'unknown') end as end_reason,
+    count(*) as calls,
+    coalesce(sum(c.duration), 0)::double precision / 60 as minutes,
+    coalesce(sum(c.cost), 0)::double precision as cost
+  from public.calls c
+  where bucket in ('minute', 'hour', 'day', 'week', 'month')
+    and (start_date is null or c.created_at >= start_date)
+    and (end_date is null or c.created_at <= end_date)
+    and (assistants is null or c."Assistant" = any(assistants))
+    and (end_reason_categories is null or c.end_reason_category = any(end_reason_categories))
+  group by 1, 2, 3
+  order by 1, 2, 3;
+$$;
+
+grant execute on function public.call_analytics(timestamptz, timestamptz, text, text, text[], boolean, boolean, text[])
+  to anon, authenticated;